@@ -1,12 +1,47 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality, Type, FunctionDeclaration } from '@google/genai';
-import { ConnectionStatus, MessageLog } from './types';
+import { GoogleGenAI, LiveServerMessage, Session } from '@google/genai';
+import {
+  CallEndReason,
+  CallSummary,
+  ConnectionStatus,
+  CustomerContact,
+  HandoffTicket,
+  InputMode,
+  MessageLog,
+  RecordingConsent,
+  RecordingState,
+  TalkMode,
+} from './types';
 import { decode, decodeAudioData, createPcmBlob } from './utils/audio';
-import { queryKnowledgeBase, submitSupportAction } from './services/riyadahApi';
+import { PcmCapture, startPcmCapture } from './utils/audioCapture';
+import { createLevelAnalyser } from './utils/audioLevels';
+import { Vad, createVad } from './utils/vad';
+import { ToolOutcome, toolRegistry } from './tools';
+import { validContactDetails } from './tools/contactValidation';
+import { ActionReceipt } from './services/adapters';
+import { ACTION_EVENT_KINDS, HostCommand, HostContext, describeHostContext } from './embed/protocol';
+import { WidgetBridge, createWidgetBridge, embedAllowedOrigins } from './embed/widgetBridge';
+import { buildClientSessionConfig, profileIdFromUrl } from './config/assistant';
+import { PROFILE_ID_PATTERN, PublicProfile } from './config/profiles';
+import { startBackend, submitCallSummary, unavailableTools, uploadRecording } from './services/riyadahApi';
+import { CallTelemetry, createCallTelemetry } from './services/telemetry';
+import { GuardrailMonitor, createGuardrailMonitor } from './services/guardrails';
+import { DEFAULT_GUARDRAIL_RULES } from './config/guardrails';
+import { SessionTokenError, SessionTokenErrorCode, fetchSessionToken } from './services/sessionToken';
+import { ReconnectionManager, buildResumeSeed, createReconnectionManager } from './services/reconnection';
+import { CallRecorder, buildCallRecording, createCallRecorder, recordingFileName } from './services/recording';
+import { RecordingConfig, recordingConfigFromEnv } from './config/recording';
+import { mergeContact } from './utils/contact';
 import { Visualizer } from './components/Visualizer';
-
-const MODEL_NAME = 'gemini-2.5-flash-native-audio-preview-12-2025';
+import { TranscriptPanel } from './components/TranscriptPanel';
+import { TalkModeControls } from './components/TalkModeControls';
+import { HandoffPanel } from './components/HandoffPanel';
+import { ChatComposer, InputModeSwitch } from './components/ChatComposer';
+import { FinishedRecording, RecordingPanel } from './components/RecordingPanel';
+import { appendTranscriptChunk, finalizeTranscript } from './utils/transcript';
+import { useI18n } from './i18n/I18nProvider';
+import { MessageKey } from './i18n/messages';
 
 const HelpDeskIcon = () => (
   <svg 
@@ -26,71 +61,39 @@ const HelpDeskIcon = () => (
   </svg>
 );
 
-const knowledgeBaseTool: FunctionDeclaration = {
-  name: 'query_knowledge_base',
-  parameters: {
-    type: Type.OBJECT,
-    description: 'Query Riyadah knowledge base for information about company services and products.',
-    properties: {
-      query: { type: Type.STRING, description: 'The user query to search for.' },
-      sessionId: { type: Type.STRING, description: 'A unique session ID.' }
-    },
-    required: ['query', 'sessionId'],
-  },
+const TOKEN_ERRORS: Record<SessionTokenErrorCode, MessageKey> = {
+  profile_not_found: 'error.profileNotFound',
+  rate_limited: 'error.rateLimited',
+  failed: 'error.connectFailed',
 };
 
-const bookMeetingTool: FunctionDeclaration = {
-  name: 'book_meeting',
-  parameters: {
-    type: Type.OBJECT,
-    description: 'Schedule a professional meeting or appointment for the customer.',
-    properties: {
-      name: { type: Type.STRING, description: 'Customer full name.' },
-      phone: { type: Type.STRING, description: 'Phone number.' },
-      email: { type: Type.STRING, description: 'Email address.' },
-      datetime: { type: Type.STRING, description: 'Preferred date and time.' },
-      purpose: { type: Type.STRING, description: 'Reason for the meeting.' }
-    },
-    required: ['name', 'phone', 'email', 'datetime', 'purpose'],
-  },
+const LOCALE_SWITCH_NOTES = {
+  en: '[System note] The customer switched the screen to English. Continue in English unless they speak Arabic.',
+  ar: '[System note] The customer switched the screen to Arabic. Continue in Egyptian Arabic unless they speak English.',
 };
 
-const createTicketTool: FunctionDeclaration = {
-  name: 'create_support_ticket',
-  parameters: {
-    type: Type.OBJECT,
-    description: 'Create a support ticket or log a complaint for the customer.',
-    properties: {
-      name: { type: Type.STRING, description: 'Customer full name.' },
-      phone: { type: Type.STRING, description: 'Phone number.' },
-      email: { type: Type.STRING, description: 'Email address.' },
-      type: { type: Type.STRING, description: 'Either "Support" or "Complaint".' },
-      description: { type: Type.STRING, description: 'Detailed description of the issue.' }
-    },
-    required: ['name', 'phone', 'email', 'type', 'description'],
-  },
-};
-
-const logSalesInterestTool: FunctionDeclaration = {
-  name: 'log_sales_interest',
-  parameters: {
-    type: Type.OBJECT,
-    description: 'Log a customer interest in a product or service for sales follow-up.',
-    properties: {
-      name: { type: Type.STRING, description: 'Customer full name.' },
-      phone: { type: Type.STRING, description: 'Phone number.' },
-      email: { type: Type.STRING, description: 'Email address.' },
-      interest: { type: Type.STRING, description: 'What specific product or service are they interested in?' }
-    },
-    required: ['name', 'phone', 'email', 'interest'],
-  },
-};
+const HANDOFF_TOOL = 'request_human_agent';
+const CONSENT_TOOL = 'set_recording_consent';
+/** Consecutive failed tool calls before the assistant is told to offer a person. */
+const FAILURES_BEFORE_HANDOFF = 2;
 
 const App: React.FC = () => {
+  const { locale, dir, t, setLocale } = useI18n();
   const [status, setStatus] = useState<ConnectionStatus>('disconnected');
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [isListening, setIsListening] = useState(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [messages, setMessages] = useState<MessageLog[]>([]);
+  const [inputAnalyser, setInputAnalyser] = useState<AnalyserNode | null>(null);
+  const [outputAnalyser, setOutputAnalyser] = useState<AnalyserNode | null>(null);
+  const [micTrack, setMicTrack] = useState<MediaStreamTrack | null>(null);
+  const [talkMode, setTalkMode] = useState<TalkMode>('open-mic');
+  const [isTalking, setIsTalking] = useState(false);
+  const [handoff, setHandoff] = useState<HandoffTicket | null>(null);
+  const [inputMode, setInputMode] = useState<InputMode>('voice');
+  const [notice, setNotice] = useState<MessageKey | null>(null);
+  const [recordingState, setRecordingState] = useState<RecordingState>('off');
+  const [recordings, setRecordings] = useState<FinishedRecording[]>([]);
   const [sessionId] = useState(() => `sess_${Math.random().toString(36).substring(2, 10)}`);
 
   const audioContextInRef = useRef<AudioContext | null>(null);
@@ -98,40 +101,507 @@ const App: React.FC = () => {
   const gainNodeOutRef = useRef<GainNode | null>(null);
   const nextStartTimeRef = useRef(0);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const sessionRef = useRef<any>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
+  const sessionRef = useRef<Session | null>(null);
+  const generationRef = useRef(0);
+  const reconnectingRef = useRef(false);
+  const reconnectRef = useRef<ReconnectionManager>(createReconnectionManager());
+  const contactRef = useRef<CustomerContact>({});
+  const messagesRef = useRef<MessageLog[]>([]);
+  const vadRef = useRef<Vad>(createVad({ noiseGateRms: 0.004 }));
+  const vadSpeakingRef = useRef(false);
+  const talkModeRef = useRef<TalkMode>('open-mic');
+  const pttActiveRef = useRef(false);
+  const bridgeRef = useRef<WidgetBridge | null>(null);
+  const hostContextRef = useRef<HostContext>({});
+  const hostCommandRef = useRef<(command: HostCommand) => void>(() => {});
+  const emittedTurnsRef = useRef(0);
+  const telemetryRef = useRef<CallTelemetry | null>(null);
+  const callCountRef = useRef(0);
+  const profileIdRef = useRef<string | undefined>(profileIdFromUrl());
+  const activeProfileRef = useRef<PublicProfile | null>(null);
+  const failedToolCallsRef = useRef(0);
+  /** System notes raised while a tool ran; they follow its response, which the model is waiting for. */
+  const pendingNotesRef = useRef<string[]>([]);
+  const guardrailsRef = useRef<GuardrailMonitor | null>(null);
+  const captureRef = useRef<PcmCapture | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const inputModeRef = useRef<InputMode>('voice');
+  const localeRef = useRef(locale);
+  const recordingConfigRef = useRef<RecordingConfig>(recordingConfigFromEnv());
+  const recordingStateRef = useRef<RecordingState>('off');
+  const recorderRef = useRef<{ recorder: CallRecorder; consent: RecordingConsent; startedAtMs: number } | null>(null);
+  // Text calls have no mic stream, so whether a call is running is tracked on its own.
+  const callActiveRef = useRef(false);
+
+  useEffect(() => { messagesRef.current = messages; }, [messages]);
+  useEffect(() => { talkModeRef.current = talkMode; }, [talkMode]);
+
+  // New calls open in the chosen language; a running one is told about the switch.
+  useEffect(() => {
+    if (localeRef.current === locale) return;
+    localeRef.current = locale;
+    sessionRef.current?.sendClientContent({ turns: LOCALE_SWITCH_NOTES[locale], turnComplete: false });
+  }, [locale]);
+
+  useEffect(() => {
+    const bridge = createWidgetBridge(embedAllowedOrigins(), command => hostCommandRef.current(command));
+    bridgeRef.current = bridge;
+    bridge?.emit({ type: 'ready' });
+    return () => {
+      bridge?.destroy();
+      bridgeRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => { bridgeRef.current?.emit({ type: 'status', status }); }, [status]);
 
-  const cleanup = useCallback(() => {
+  useEffect(() => {
+    if (errorMsg) bridgeRef.current?.emit({ type: 'error', message: errorMsg });
+  }, [errorMsg]);
+
+  // Only finished turns go to the host; streaming partials would flood it.
+  useEffect(() => {
+    if (messages.length < emittedTurnsRef.current) emittedTurnsRef.current = 0;
+    while (emittedTurnsRef.current < messages.length && messages[emittedTurnsRef.current].isFinal) {
+      const m = messages[emittedTurnsRef.current++];
+      bridgeRef.current?.emit({ type: 'transcript', role: m.role, text: m.text, timestamp: m.timestamp.toISOString() });
+    }
+  }, [messages]);
+
+  // Queued actions keep retrying while the page is open, not only during a call.
+  useEffect(() => startBackend(), []);
+
+  const cleanup = useCallback((reason: CallEndReason = 'user_hangup') => {
+    if (telemetryRef.current) {
+      const summary = telemetryRef.current.finish(reason, messagesRef.current, contactRef.current);
+      telemetryRef.current = null;
+      finishRecording(summary);
+      submitCallSummary(summary).catch(e => console.error('Call summary not logged:', e));
+    }
+    recorderRef.current = null;
+    updateRecordingState('off');
+    reconnectRef.current.cancel();
+    // Bumping the generation makes callbacks of the closing session no-ops.
+    generationRef.current++;
     if (sessionRef.current) {
       try { sessionRef.current.close(); } catch (e) {}
       sessionRef.current = null;
     }
-    if (scriptProcessorRef.current) {
-      scriptProcessorRef.current.disconnect();
-      scriptProcessorRef.current = null;
+    callActiveRef.current = false;
+    stopMic();
+    stopPlayback();
+    setMessages(prev => finalizeTranscript(prev));
+    setStatus('disconnected');
+    setIsListening(false);
+    setIsSpeaking(false);
+  }, []);
+
+  const updateRecordingState = (state: RecordingState) => {
+    recordingStateRef.current = state;
+    setRecordingState(state);
+  };
+
+  /** The caller's answer, spoken to the assistant or given on screen; only the first one counts. */
+  const applyRecordingConsent = (consent: boolean, method: RecordingConsent['method']) => {
+    if (recordingStateRef.current !== 'asking' || !audioContextOutRef.current) return;
+    const outContext = audioContextOutRef.current;
+    if (consent) {
+      recorderRef.current = {
+        recorder: createCallRecorder({ clock: () => outContext.currentTime, maxSeconds: recordingConfigRef.current.maxMinutes * 60 }),
+        consent: { method, at: new Date().toISOString() },
+        startedAtMs: Date.now(),
+      };
     }
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
+    updateRecordingState(consent ? 'recording' : 'declined');
+    if (method === 'on_screen') {
+      sessionRef.current?.sendClientContent({
+        turns: `[System note] The customer ${consent ? 'agreed on screen to the call being recorded' : 'declined recording on screen'}. Do not ask about recording.`,
+        turnComplete: false,
+      });
     }
+  };
+
+  /** Turns the finished recording into a download, and uploads it when configured. */
+  const finishRecording = (summary: CallSummary) => {
+    const active = recorderRef.current;
+    recorderRef.current = null;
+    if (!active) return;
+    const config = recordingConfigRef.current;
+    const recording = buildCallRecording(active.recorder.finish(), {
+      summary,
+      messages: messagesRef.current,
+      consent: active.consent,
+      startedAtMs: active.startedAtMs,
+      retentionDays: config.retentionDays,
+    });
+    const url = URL.createObjectURL(recording.audio);
+    setRecordings(prev => {
+      const next = [...prev, { url, fileName: recordingFileName(recording), upload: config.upload ? 'pending' as const : 'off' as const }];
+      next.slice(0, -config.keepLocal).forEach(r => URL.revokeObjectURL(r.url));
+      return next.slice(-config.keepLocal);
+    });
+    if (!config.upload) return;
+    const setUpload = (upload: FinishedRecording['upload']) =>
+      setRecordings(prev => prev.map(r => (r.url === url ? { ...r, upload } : r)));
+    uploadRecording(recording).then(
+      () => setUpload('done'),
+      e => {
+        console.error('Recording not uploaded:', e);
+        setUpload('failed');
+      },
+    );
+  };
+
+  const reportToolOutcome = (outcome: ToolOutcome) => {
+    // Only details that passed validation count as collected; a misheard number must be asked again.
+    contactRef.current = mergeContact(contactRef.current, outcome.validArgs);
+    telemetryRef.current?.recordToolOutcome(outcome);
+    if (outcome.name === HANDOFF_TOOL && !outcome.error) setHandoff(outcome.result as HandoffTicket);
+    if (outcome.name === CONSENT_TOOL && !outcome.error) {
+      applyRecordingConsent((outcome.result as { consent: boolean }).consent, 'spoken');
+    }
+    // Argument errors are the customer repeating a detail; anything else means the assistant is stuck.
+    if (!outcome.error || outcome.error.code === 'INVALID_ARGUMENTS') {
+      failedToolCallsRef.current = 0;
+    } else if (++failedToolCallsRef.current >= FAILURES_BEFORE_HANDOFF && outcome.name !== HANDOFF_TOOL) {
+      failedToolCallsRef.current = 0;
+      const offer = activeProfileRef.current?.enabledTools.includes(HANDOFF_TOOL)
+        ? `offer to connect the customer to a person with ${HANDOFF_TOOL}`
+        : 'give the customer the hotline (+2) 0155-155-3285';
+      pendingNotesRef.current.push(
+        `[System note] Requests to the system have failed ${FAILURES_BEFORE_HANDOFF} times in a row. Apologise and ${offer}.`,
+      );
+    }
+    const kind = ACTION_EVENT_KINDS[outcome.name];
+    if (!kind || outcome.error) return;
+    const receipt = outcome.result as ActionReceipt | undefined;
+    bridgeRef.current?.emit({
+      type: 'action',
+      kind,
+      tool: outcome.name,
+      status: receipt?.status ?? 'unknown',
+      reference: receipt?.reference,
+      details: outcome.args,
+    });
+  };
+
+  const stopPlayback = () => {
+    // Queued audio that is never played must not end up in the recording either.
+    if (audioContextOutRef.current) recorderRef.current?.recorder.cutAssistant(audioContextOutRef.current.currentTime);
     sourcesRef.current.forEach(source => { try { source.stop(); } catch(e) {} });
     sourcesRef.current.clear();
     nextStartTimeRef.current = 0;
-    setStatus('disconnected');
-    setIsListening(false);
+  };
+
+  const openSession = async (resumeHandle?: string, signal?: AbortSignal): Promise<Session> => {
+    const generation = ++generationRef.current;
+    const isCurrent = () => generation === generationRef.current && !signal?.aborted;
+
+    // The API key stays on the token server; the browser only gets a short-lived token.
+    // Reconnects keep the profile the call started with, even if business hours changed since.
+    const { token, profile } = await fetchSessionToken(
+      activeProfileRef.current?.id ?? profileIdRef.current,
+      localeRef.current,
+      unavailableTools(),
+    );
+    activeProfileRef.current = profile;
+    const ai = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+
+    const sessionPromise = ai.live.connect({
+      model: profile.model,
+      callbacks: {
+        onopen: () => {
+          if (!isCurrent()) return;
+          setStatus('connected');
+          setIsListening(inputModeRef.current === 'voice');
+        },
+        onmessage: async (message: LiveServerMessage) => {
+          if (!isCurrent()) return;
+
+          if (message.sessionResumptionUpdate) {
+            reconnectRef.current.trackResumption(message.sessionResumptionUpdate);
+          }
+
+          const audioData = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+          // Text mode is for quiet places: the reply is read from the transcript, not played.
+          if (audioData && audioContextOutRef.current && inputModeRef.current === 'voice') {
+            setIsSpeaking(true);
+            const pcm = decode(audioData);
+            const audioBuffer = await decodeAudioData(pcm, audioContextOutRef.current, 24000, 1);
+            const source = audioContextOutRef.current.createBufferSource();
+            source.buffer = audioBuffer;
+            source.connect(gainNodeOutRef.current!);
+            
+            nextStartTimeRef.current = Math.max(nextStartTimeRef.current, audioContextOutRef.current.currentTime);
+            source.start(nextStartTimeRef.current);
+            recorderRef.current?.recorder.addAssistant(new Int16Array(pcm.buffer), nextStartTimeRef.current);
+            nextStartTimeRef.current += audioBuffer.duration;
+            
+            sourcesRef.current.add(source);
+            source.onended = () => {
+              sourcesRef.current.delete(source);
+              if (sourcesRef.current.size === 0) setIsSpeaking(false);
+            };
+          }
+
+          const inputText = message.serverContent?.inputTranscription?.text;
+          if (inputText) {
+            setMessages(prev => appendTranscriptChunk(prev, 'user', inputText));
+          }
+          const outputText = message.serverContent?.outputTranscription?.text;
+          if (outputText) {
+            setMessages(prev => appendTranscriptChunk(prev, 'assistant', outputText));
+            guardrailsRef.current?.observe(outputText);
+          }
+
+          if (message.serverContent?.interrupted) {
+            guardrailsRef.current?.endTurn();
+            stopPlayback();
+            setIsSpeaking(false);
+            setMessages(prev => finalizeTranscript(prev, 'assistant'));
+          }
+
+          if (message.serverContent?.turnComplete) {
+            guardrailsRef.current?.endTurn();
+            setMessages(prev => finalizeTranscript(prev));
+          }
+
+          if (message.toolCall) {
+            for (const fc of message.toolCall.functionCalls ?? []) {
+              const functionResponse = await toolRegistry.dispatch(fc, {
+                sessionId,
+                onOutcome: reportToolOutcome,
+                conversation: () => ({
+                  transcript: messagesRef.current,
+                  contact: contactRef.current,
+                  profileId: activeProfileRef.current?.id,
+                }),
+              });
+              sessionPromise.then(s => {
+                if (!isCurrent()) return;
+                s.sendToolResponse({ functionResponses: [functionResponse] });
+                for (const note of pendingNotesRef.current.splice(0)) s.sendClientContent({ turns: note, turnComplete: false });
+              });
+            }
+          }
+        },
+        onerror: (e) => {
+          console.error('WebSocket Error:', e);
+          if (isCurrent()) handleDrop();
+        },
+        onclose: () => {
+          if (isCurrent()) handleDrop();
+        },
+      },
+      config: {
+        ...buildClientSessionConfig(profile),
+        sessionResumption: { handle: resumeHandle },
+      },
+    });
+    const session = await sessionPromise;
+    if (!isCurrent()) {
+      // Opened after the call ended or the reconnect attempt gave up on it.
+      try { session.close(); } catch (e) {}
+      throw new Error('Session opened too late.');
+    }
+    sessionRef.current = session;
+    // A turn in progress on the old session cannot be continued on this one.
+    vadRef.current.reset();
+    vadSpeakingRef.current = false;
+    pttActiveRef.current = false;
+    setIsTalking(false);
+    return session;
+  };
+
+  const handleDrop = () => {
+    // A failing attempt's own close event must not start a second reconnect loop.
+    if (reconnectingRef.current) return;
+    reconnectingRef.current = true;
+    generationRef.current++;
+    sessionRef.current = null;
+    stopPlayback();
     setIsSpeaking(false);
-  }, []);
+    setMessages(prev => finalizeTranscript(prev));
+    setStatus('reconnecting');
+    telemetryRef.current?.recordReconnect();
+
+    reconnectRef.current.reconnect(async (handle, signal) => {
+      const session = await openSession(handle, signal);
+      reconnectingRef.current = false;
+      if (!handle) {
+        session.sendClientContent({
+          turns: [{ role: 'user', parts: [{ text: buildResumeSeed(messagesRef.current, contactRef.current) }] }],
+          turnComplete: true,
+        });
+      }
+    }).then(ok => {
+      reconnectingRef.current = false;
+      if (ok) return;
+      if (!callActiveRef.current) return; // ended by the user while reconnecting
+      setErrorMsg(t('error.connectionLost'));
+      setStatus('error');
+      telemetryRef.current?.recordError('Connection lost and not restored.');
+      cleanup('connection_lost');
+    });
+  };
+
+  /**
+   * Activity is marked on the client (server-side detection is off): by the
+   * local VAD in open-mic mode, by the talk button or key in push-to-talk.
+   * Silence between turns is never sent.
+   */
+  const handleCapturedAudio = (pcm: Int16Array) => {
+    recorderRef.current?.recorder.addCaller(pcm);
+    const session = sessionRef.current;
+    if (!session) return;
+
+    if (talkModeRef.current === 'push-to-talk') {
+      if (pttActiveRef.current) session.sendRealtimeInput({ media: createPcmBlob(pcm) });
+      return;
+    }
+
+    const { event, frames, speaking } = vadRef.current.process(pcm);
+    vadSpeakingRef.current = speaking;
+    if (event === 'start') session.sendRealtimeInput({ activityStart: {} });
+    frames.forEach(frame => session.sendRealtimeInput({ media: createPcmBlob(frame) }));
+    if (event === 'end') session.sendRealtimeInput({ activityEnd: {} });
+  };
+
+  const startTalking = () => {
+    if (talkModeRef.current !== 'push-to-talk' || pttActiveRef.current || !streamRef.current || !sessionRef.current) return;
+    pttActiveRef.current = true;
+    setIsTalking(true);
+    sessionRef.current.sendRealtimeInput({ activityStart: {} });
+  };
+
+  const stopTalking = () => {
+    if (!pttActiveRef.current) return;
+    pttActiveRef.current = false;
+    setIsTalking(false);
+    sessionRef.current?.sendRealtimeInput({ activityEnd: {} });
+  };
+
+  /** Null when the mic cannot be had; the caller falls back to text. */
+  const requestMic = async (): Promise<MediaStream | null> => {
+    try {
+      return await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err: any) {
+      console.warn('Microphone unavailable:', err);
+      setNotice(err?.name === 'NotAllowedError' ? 'notice.micDenied' : 'notice.micMissing');
+      return null;
+    }
+  };
+
+  const startMic = async (stream: MediaStream) => {
+    streamRef.current = stream;
+    // Frames go to whichever session is current, so capture survives reconnects.
+    const capture = await startPcmCapture(audioContextInRef.current!, stream, handleCapturedAudio);
+    // The call may have ended, or switched to text, while the worklet module was loading.
+    if (streamRef.current === stream) {
+      captureRef.current = capture;
+      const analyser = createLevelAnalyser(audioContextInRef.current!);
+      capture.source.connect(analyser);
+      setInputAnalyser(analyser);
+      setMicTrack(stream.getAudioTracks()[0] ?? null);
+    } else {
+      capture.stop();
+    }
+  };
+
+  const stopMic = () => {
+    // A turn cut off by the switch still has to be closed, or the model waits for more audio.
+    if (pttActiveRef.current || vadSpeakingRef.current) {
+      sessionRef.current?.sendRealtimeInput({ activityEnd: {} });
+    }
+    vadRef.current.reset();
+    vadSpeakingRef.current = false;
+    pttActiveRef.current = false;
+    setIsTalking(false);
+    if (captureRef.current) {
+      captureRef.current.stop();
+      captureRef.current = null;
+    }
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    }
+    setInputAnalyser(null);
+    setMicTrack(null);
+  };
+
+  const applyInputMode = (mode: InputMode) => {
+    inputModeRef.current = mode;
+    setInputMode(mode);
+    setIsListening(mode === 'voice' && callActiveRef.current);
+  };
+
+  /** Switches between speaking and typing without ending the conversation. */
+  const switchInputMode = async (mode: InputMode) => {
+    if (mode === inputModeRef.current) return;
+    if (!callActiveRef.current) {
+      applyInputMode(mode);
+      return;
+    }
+    if (mode === 'text') {
+      stopMic();
+      stopPlayback();
+      setIsSpeaking(false);
+      applyInputMode('text');
+      sessionRef.current?.sendClientContent({
+        turns: '[System note] The customer switched to text chat and is reading your replies. Keep them short.',
+        turnComplete: false,
+      });
+      return;
+    }
+    setNotice(null);
+    const stream = await requestMic();
+    if (!stream || !callActiveRef.current) {
+      stream?.getTracks().forEach(track => track.stop());
+      return;
+    }
+    applyInputMode('voice');
+    sessionRef.current?.sendClientContent({
+      turns: '[System note] The customer switched back to voice and can hear you again.',
+      turnComplete: false,
+    });
+    await startMic(stream);
+  };
+
+  const sendText = (text: string) => {
+    const session = sessionRef.current;
+    if (!session) return;
+    // Typed turns have no input transcription, so they go into the transcript here.
+    setMessages(prev => [...finalizeTranscript(prev), { role: 'user', text, timestamp: new Date(), isFinal: true }]);
+    session.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true });
+  };
 
   const connect = async () => {
+    let stream: MediaStream | null = null;
     try {
       setStatus('connecting');
       setErrorMsg(null);
-
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+      setNotice(null);
+      setMessages([]);
+      setHandoff(null);
+      failedToolCallsRef.current = 0;
+      pendingNotesRef.current = [];
+      telemetryRef.current = createCallTelemetry(sessionId, ++callCountRef.current);
+      guardrailsRef.current = createGuardrailMonitor(DEFAULT_GUARDRAIL_RULES, {
+        sendCorrection: text => sessionRef.current?.sendClientContent({ turns: text, turnComplete: false }),
+        onViolation: (violation, corrected) => {
+          console.warn(`Guardrail "${violation.ruleId}" broken: "${violation.match}"${corrected ? ', correction sent' : ''}.`);
+          telemetryRef.current?.recordGuardrailViolation(violation);
+        },
+      });
+      activeProfileRef.current = null;
+      contactRef.current = validContactDetails({ ...hostContextRef.current });
+      callActiveRef.current = true;
+      recordingConfigRef.current = recordingConfigFromEnv();
+      updateRecordingState(recordingConfigRef.current.enabled ? 'asking' : 'off');
       
       if (!audioContextInRef.current) {
-        audioContextInRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
+        // Runs at the device rate; the capture worklet resamples to 16 kHz.
+        audioContextInRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
       }
       if (!audioContextOutRef.current) {
         audioContextOutRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
@@ -143,217 +613,218 @@ const App: React.FC = () => {
       if (!gainNodeOutRef.current) {
         gainNodeOutRef.current = audioContextOutRef.current.createGain();
         gainNodeOutRef.current.connect(audioContextOutRef.current.destination);
+        const analyser = createLevelAnalyser(audioContextOutRef.current);
+        gainNodeOutRef.current.connect(analyser);
+        setOutputAnalyser(analyser);
       }
 
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      streamRef.current = stream;
-
-      const dynamicSystemInstruction = `You are Riyadah's AI Voice Assistant, a helpful representative of Riyadah Ltd.
-
-Core Identity & Pronunciation Rules:
-- Company Name: "Riyadah" (Arabic: رِيَــادَة).
-- Meaning: The name means "Leadership" or "Pioneering" in an enterprise context.
-- Context: Riyadah is a Technology Integrator and Infrastructure company.
-- FORBIDDEN: NEVER refer to "Sports" (رياضة). We are NOT a sports club.
-- Arabic Linguistic Rule: When speaking Arabic, you MUST pronounce/write it with the letter 'Dal' (د), not 'Dad' (ض). Use the diacritics: "رِيَـادَة". NEVER say or write "رياضة".
-
-Protocol:
-1. Knowledge: Use 'query_knowledge_base' for all info.
-2. Logging: For bookings, tickets, or sales, gather FULL name, phone, and email FIRST.
-3. Actions: Once info is gathered, call the appropriate tool. Confirm to the user when finished.
-
-Tone: Professional, bilingual (Arabic/English). Be concise.`;
-
-      const sessionPromise = ai.live.connect({
-        model: MODEL_NAME,
-        callbacks: {
-          onopen: () => {
-            setStatus('connected');
-            setIsListening(true);
-            const source = audioContextInRef.current!.createMediaStreamSource(stream);
-            scriptProcessorRef.current = audioContextInRef.current!.createScriptProcessor(4096, 1, 1);
-            scriptProcessorRef.current.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = createPcmBlob(inputData);
-              sessionPromise.then(s => {
-                if (s) s.sendRealtimeInput({ media: pcmBlob });
-              }).catch(() => {});
-            };
-            source.connect(scriptProcessorRef.current);
-            scriptProcessorRef.current.connect(audioContextInRef.current!.destination);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            const audioData = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (audioData && audioContextOutRef.current) {
-              setIsSpeaking(true);
-              const audioBuffer = await decodeAudioData(decode(audioData), audioContextOutRef.current, 24000, 1);
-              const source = audioContextOutRef.current.createBufferSource();
-              source.buffer = audioBuffer;
-              source.connect(gainNodeOutRef.current!);
-              
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, audioContextOutRef.current.currentTime);
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += audioBuffer.duration;
-              
-              sourcesRef.current.add(source);
-              source.onended = () => {
-                sourcesRef.current.delete(source);
-                if (sourcesRef.current.size === 0) setIsSpeaking(false);
-              };
-            }
-
-            if (message.serverContent?.interrupted) {
-              sourcesRef.current.forEach(s => { try { s.stop(); } catch(e) {} });
-              sourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-              setIsSpeaking(false);
-            }
+      stream = inputModeRef.current === 'voice' ? await requestMic() : null;
+      applyInputMode(stream ? 'voice' : 'text');
 
-            if (message.toolCall) {
-              for (const fc of message.toolCall.functionCalls) {
-                let responseResult = "Action successful.";
-                try {
-                  if (fc.name === 'query_knowledge_base') {
-                    const res = await queryKnowledgeBase(fc.args.query as string, sessionId);
-                    responseResult = JSON.stringify(res);
-                  } else if (fc.name === 'book_meeting') {
-                    await submitSupportAction({
-                      messageType: 'Booking',
-                      actionDone: 'Appointment Scheduled',
-                      clientName: fc.args.name as string,
-                      phone: fc.args.phone as string,
-                      email: fc.args.email as string,
-                      topic: `Purpose: ${fc.args.purpose}, Time: ${fc.args.datetime}`
-                    });
-                  } else if (fc.name === 'create_support_ticket') {
-                    await submitSupportAction({
-                      messageType: 'Support Ticket',
-                      actionDone: 'Support Ticket Logged',
-                      clientName: fc.args.name as string,
-                      phone: fc.args.phone as string,
-                      email: fc.args.email as string,
-                      topic: `${fc.args.type}: ${fc.args.description}`
-                    });
-                  } else if (fc.name === 'log_sales_interest') {
-                    await submitSupportAction({
-                      messageType: 'Sales Query',
-                      actionDone: 'Sales info Delivered',
-                      clientName: fc.args.name as string,
-                      phone: fc.args.phone as string,
-                      email: fc.args.email as string,
-                      topic: `Interest in: ${fc.args.interest}`
-                    });
-                  }
-                } catch (e: any) {
-                  responseResult = `Error: ${e.message}`;
-                }
-
-                sessionPromise.then(s => {
-                  s.sendToolResponse({
-                    functionResponses: [{
-                      id: fc.id,
-                      name: fc.name,
-                      response: { result: responseResult }
-                    }]
-                  });
-                });
-              }
-            }
-          },
-          onerror: (e) => {
-            console.error('WebSocket Error:', e);
-            setErrorMsg("Call ended. Possible connection issue.");
-            setStatus('error');
-            cleanup();
-          },
-          onclose: () => cleanup(),
-        },
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } },
-          systemInstruction: dynamicSystemInstruction,
-          tools: [{ functionDeclarations: [knowledgeBaseTool, bookMeetingTool, createTicketTool, logSalesInterestTool] }],
-        }
+      const session = await openSession();
+      const contextNote = describeHostContext(hostContextRef.current);
+      if (contextNote) session.sendClientContent({ turns: contextNote, turnComplete: false });
+      if (!stream) {
+        session.sendClientContent({ turns: '[System note] The customer is using text chat and reads your replies. Keep them short.', turnComplete: false });
+      }
+      if (recordingConfigRef.current.enabled) {
+        session.sendClientContent({
+          turns: `[System note] Right after the greeting, ask whether this call may be recorded for quality review, then call ${CONSENT_TOOL} with the answer. Nothing is recorded unless they agree.`,
+          turnComplete: false,
+        });
+      }
+      session.sendClientContent({
+        turns: `[System note] The call has started. Greet the customer now with: "${activeProfileRef.current!.greeting}"`,
+        turnComplete: true,
       });
-      sessionRef.current = await sessionPromise;
+
+      if (stream) {
+        if (callActiveRef.current) await startMic(stream);
+        else stream.getTracks().forEach(track => track.stop());
+      }
     } catch (err: any) {
-      setErrorMsg(err.message || "Failed to establish voice session.");
+      stream?.getTracks().forEach(track => track.stop());
+      if (!callActiveRef.current) return; // ended by the user while connecting
+      setErrorMsg(t(err instanceof SessionTokenError ? TOKEN_ERRORS[err.code] : 'error.connectFailed'));
       setStatus('error');
-      cleanup();
+      telemetryRef.current?.recordError(err.message || 'Failed to establish voice session.');
+      cleanup('error');
+    }
+  };
+
+  const isInCall = status === 'connected' || status === 'connecting' || status === 'reconnecting';
+
+  hostCommandRef.current = (command: HostCommand) => {
+    switch (command.type) {
+      case 'start-call':
+        if (!isInCall) connect();
+        break;
+      case 'end-call':
+        if (isInCall) cleanup('host_end');
+        break;
+      case 'set-profile':
+        // Takes effect from the next call; a running session keeps its locked-in profile.
+        if (PROFILE_ID_PATTERN.test(command.profile)) profileIdRef.current = command.profile;
+        break;
+      case 'set-context': {
+        hostContextRef.current = command.context;
+        contactRef.current = mergeContact(contactRef.current, { ...validContactDetails({ ...command.context }) });
+        const note = describeHostContext(command.context);
+        if (note) sessionRef.current?.sendClientContent({ turns: note, turnComplete: false });
+        break;
+      }
     }
   };
 
+  // Space bar held down is push-to-talk, unless the user is typing somewhere.
+  useEffect(() => {
+    if (talkMode !== 'push-to-talk' || inputMode !== 'voice' || !isInCall) return;
+    const isTyping = (e: KeyboardEvent) => e.target instanceof HTMLElement && e.target.closest('input, textarea, [contenteditable]');
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      e.preventDefault();
+      if (!e.repeat) startTalking();
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      e.preventDefault();
+      stopTalking();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', stopTalking);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', stopTalking);
+    };
+  }, [talkMode, inputMode, isInCall]);
+
   return (
-    <div className="h-screen w-full bg-white flex flex-col overflow-hidden">
+    <div dir={dir} className="h-screen w-full bg-white flex flex-col overflow-hidden">
       {/* Absolute top header for seamless iframe embedding */}
       <header className="bg-slate-900 px-6 py-4 text-white flex justify-between items-center shrink-0 w-full shadow-lg z-20">
-        <div className="flex items-center space-x-3">
+        <div className="flex items-center gap-3">
           <HelpDeskIcon />
           <div>
-            <h1 className="text-base font-bold leading-none tracking-tight">Riyadah Voice</h1>
-            <span className="text-[9px] text-cyan-400 font-bold tracking-widest uppercase">AI Assistant</span>
+            <h1 className="text-base font-bold leading-none tracking-tight">{t('app.title')}</h1>
+            <span className="text-[9px] text-cyan-400 font-bold tracking-widest uppercase">{t('app.subtitle')}</span>
           </div>
         </div>
-        <div className="flex items-center space-x-2 bg-slate-800 px-3 py-1 rounded-full text-[9px] font-bold uppercase tracking-wider">
-          <div className={`w-1.5 h-1.5 rounded-full ${status === 'connected' ? 'bg-green-500 animate-pulse' : 'bg-slate-500'}`} />
-          <span className="text-slate-300">{status}</span>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setLocale(locale === 'ar' ? 'en' : 'ar')}
+            aria-label={t('locale.label')}
+            className="bg-slate-800 hover:bg-slate-700 px-3 py-1 rounded-full text-[10px] font-bold text-slate-200 transition-colors"
+          >
+            {t('locale.switchTo')}
+          </button>
+          <div className="flex items-center gap-2 bg-slate-800 px-3 py-1 rounded-full text-[9px] font-bold uppercase tracking-wider">
+            <div className={`w-1.5 h-1.5 rounded-full ${
+              status === 'connected' ? 'bg-green-500 animate-pulse' : status === 'reconnecting' ? 'bg-amber-400 animate-pulse' : 'bg-slate-500'
+            }`} />
+            <span className="text-slate-300">{t(`status.${status}` as MessageKey)}</span>
+          </div>
         </div>
       </header>
 
       {/* Main content filling the height */}
       <main className="flex-1 flex flex-col items-center justify-center p-6 space-y-10 overflow-hidden">
         <div className="text-center animate-fadeIn">
-          <h2 className="text-2xl font-bold text-slate-800 mb-1">Welcome to Riyadah</h2>
-          <p className="text-slate-500 text-xs font-medium uppercase tracking-wider">Professional Voice AI Service</p>
+          <h2 className="text-2xl font-bold text-slate-800 mb-1">{t('welcome.title')}</h2>
+          <p className="text-slate-500 text-xs font-medium uppercase tracking-wider">{t('welcome.tagline')}</p>
         </div>
 
         <div className="relative group">
           <div className={`absolute -inset-16 bg-cyan-100/30 rounded-full blur-3xl transition-all duration-1000 ${isSpeaking || isListening ? 'scale-125 opacity-100' : 'scale-50 opacity-0'}`} />
           <div className="relative z-10 w-48 h-48 bg-white rounded-full shadow-2xl flex items-center justify-center border border-slate-50">
-             <Visualizer active={isSpeaking || isListening} color={isSpeaking ? 'bg-cyan-500' : 'bg-green-500'} />
+             <Visualizer
+               active={isSpeaking || isListening}
+               inputAnalyser={inputAnalyser}
+               outputAnalyser={outputAnalyser}
+               micTrack={micTrack}
+             />
           </div>
         </div>
 
         <div className="w-full flex flex-col items-center space-y-4 pb-4">
           <button
-            onClick={status === 'connected' || status === 'connecting' ? cleanup : connect}
+            onClick={isInCall ? () => cleanup() : connect}
             disabled={status === 'connecting'}
             className={`group relative px-12 py-4 rounded-full font-bold text-base shadow-xl transition-all transform active:scale-95 ${
-              status === 'connected' || status === 'connecting'
+              isInCall
                 ? 'bg-red-50 text-red-600 border border-red-100 hover:bg-red-100'
                 : 'bg-slate-900 text-white hover:bg-black shadow-slate-200'
             }`}
           >
-            <span className="flex items-center space-x-3">
+            <span className="flex items-center gap-3">
               {status === 'connecting' ? (
                 <>
                   <svg className="animate-spin h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                   </svg>
-                  <span>Connecting...</span>
+                  <span>{t('call.connecting')}</span>
                 </>
-              ) : status === 'connected' ? (
-                'End Conversation'
+              ) : status === 'connected' || status === 'reconnecting' ? (
+                t('call.end')
               ) : (
-                'Start Interaction'
+                t('call.start')
               )}
             </span>
           </button>
 
+          <InputModeSwitch mode={inputMode} onChange={switchInputMode} />
+
+          {inputMode === 'voice' ? (
+            <TalkModeControls
+              mode={talkMode}
+              onModeChange={setTalkMode}
+              inCall={isInCall}
+              isTalking={isTalking}
+              onTalkStart={startTalking}
+              onTalkEnd={stopTalking}
+            />
+          ) : isInCall && (
+            <ChatComposer disabled={status !== 'connected'} onSend={sendText} />
+          )}
+
+          {notice && (
+            <div className="max-w-xs text-center p-3 bg-slate-50 text-slate-600 rounded-xl text-[10px] font-bold border border-slate-100 uppercase tracking-tight">
+              {t(notice)}
+            </div>
+          )}
+
+          {status === 'reconnecting' && (
+            <div className="max-w-xs text-center p-3 bg-amber-50 text-amber-700 rounded-xl text-[10px] font-bold border border-amber-100 uppercase tracking-tight">
+              {t('call.reconnecting')}
+            </div>
+          )}
+
+          {handoff && <HandoffPanel ticket={handoff} />}
+
+          <RecordingPanel
+            state={recordingState}
+            retentionDays={recordingConfigRef.current.retentionDays}
+            onConsent={consent => applyRecordingConsent(consent, 'on_screen')}
+            recordings={recordings}
+          />
+
           {errorMsg && (
             <div className="max-w-xs text-center p-3 bg-red-50 text-red-700 rounded-xl text-[10px] font-bold border border-red-100 uppercase tracking-tight">
               {errorMsg}
             </div>
           )}
         </div>
+
+        <TranscriptPanel messages={messages} />
       </main>
 
       {/* Footer snapping to bottom */}
       <footer className="bg-slate-50 px-6 py-4 border-t border-slate-100 text-center shrink-0 w-full">
         <p className="text-slate-400 text-[9px] font-bold uppercase tracking-[0.3em] leading-relaxed">
-          © 2026 Riyadah Ltd. <br/>
-          Hotline: (+2) 0155-155-3285 • Cairo, Egypt
+          {t('footer.company')} <br/>
+          {t('footer.hotline')} <span dir="ltr">(+2) 0155-155-3285</span> • {t('footer.location')}
         </p>
       </footer>
     </div>
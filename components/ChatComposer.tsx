@@ -0,0 +1,79 @@
+
+import React, { useState } from 'react';
+import { InputMode } from '../types';
+import { textDirection } from '../utils/transcript';
+import { useI18n } from '../i18n/I18nProvider';
+import { MessageKey } from '../i18n/messages';
+
+interface InputModeSwitchProps {
+  mode: InputMode;
+  onChange: (mode: InputMode) => void;
+}
+
+const MODES: { id: InputMode; label: MessageKey }[] = [
+  { id: 'voice', label: 'mode.voice' },
+  { id: 'text', label: 'mode.text' },
+];
+
+/** Voice or text; usable before a call and during one. */
+export const InputModeSwitch: React.FC<InputModeSwitchProps> = ({ mode, onChange }) => {
+  const { t } = useI18n();
+  return (
+    <div className="flex bg-slate-100 rounded-full p-1 text-[10px] font-bold uppercase tracking-wider" role="radiogroup" aria-label={t('mode.label')}>
+      {MODES.map(m => (
+        <button
+          key={m.id}
+          role="radio"
+          aria-checked={mode === m.id}
+          onClick={() => onChange(m.id)}
+          className={`px-4 py-1.5 rounded-full transition-all ${
+            mode === m.id ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+          }`}
+        >
+          {t(m.label)}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+interface ChatComposerProps {
+  disabled: boolean;
+  onSend: (text: string) => void;
+}
+
+/** The text box of text mode. Enter sends; the box follows the script being typed. */
+export const ChatComposer: React.FC<ChatComposerProps> = ({ disabled, onSend }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState('');
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text || disabled) return;
+    onSend(text);
+    setDraft('');
+  };
+
+  const dir = textDirection(draft);
+  return (
+    <form onSubmit={submit} className="w-full max-w-md flex items-center gap-2">
+      <input
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        dir={dir}
+        placeholder={t('chat.placeholder')}
+        aria-label={t('chat.label')}
+        disabled={disabled}
+        className={`flex-1 px-4 py-3 rounded-full border border-slate-200 text-sm focus:outline-none focus:border-cyan-400 disabled:bg-slate-50 ${dir === 'rtl' ? 'arabic text-right' : ''}`}
+      />
+      <button
+        type="submit"
+        disabled={disabled || !draft.trim()}
+        className="px-5 py-3 rounded-full bg-slate-900 text-white text-xs font-bold uppercase tracking-wider disabled:opacity-40"
+      >
+        {t('chat.send')}
+      </button>
+    </form>
+  );
+};
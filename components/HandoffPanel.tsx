@@ -0,0 +1,48 @@
+
+import React from 'react';
+import { HandoffTicket } from '../types';
+import { BUSINESS_TIME_ZONE } from '../utils/datetime';
+import { useI18n } from '../i18n/I18nProvider';
+import { Locale, localeTag } from '../i18n/locales';
+
+interface HandoffPanelProps {
+  ticket: HandoffTicket;
+}
+
+const formatTime = (iso: string, locale: Locale) => new Intl.DateTimeFormat(localeTag(locale), {
+  timeZone: BUSINESS_TIME_ZONE, hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+}).format(new Date(iso));
+
+/** Where the customer stands after asking for a person. */
+export const HandoffPanel: React.FC<HandoffPanelProps> = ({ ticket }) => {
+  const { locale, t } = useI18n();
+  const { title, detail } = (() => {
+    switch (ticket.status) {
+      case 'queued':
+        return {
+          title: t('handoff.queuedTitle'),
+          detail: t('handoff.queuedDetail', { position: ticket.position ?? '-', minutes: ticket.estimatedWaitMinutes ?? '?' }),
+        };
+      case 'callback_scheduled':
+        return {
+          title: t('handoff.callbackTitle'),
+          detail: ticket.callbackBy
+            ? t('handoff.callbackBy', { time: formatTime(ticket.callbackBy, locale) })
+            : t('handoff.callbackSoon'),
+        };
+      case 'unavailable':
+        return { title: t('handoff.unavailableTitle'), detail: t('handoff.unavailableDetail') };
+    }
+  })();
+
+  return (
+    <div
+      className="max-w-xs w-full text-center p-3 bg-cyan-50 text-cyan-800 rounded-xl border border-cyan-100"
+      role="status"
+    >
+      <p className="text-[10px] font-bold uppercase tracking-tight">{title}</p>
+      <p className="text-[10px] mt-0.5">{detail}</p>
+      {ticket.id && <p className="text-[8px] font-bold uppercase tracking-widest opacity-60 mt-1">{t('handoff.reference', { id: ticket.id })}</p>}
+    </div>
+  );
+};
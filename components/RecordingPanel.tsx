@@ -0,0 +1,65 @@
+
+import React from 'react';
+import { RecordingState } from '../types';
+import { useI18n } from '../i18n/I18nProvider';
+import { MessageKey } from '../i18n/messages';
+
+export interface FinishedRecording {
+  url: string;
+  fileName: string;
+  upload: 'off' | 'pending' | 'done' | 'failed';
+}
+
+interface RecordingPanelProps {
+  state: RecordingState;
+  retentionDays: number;
+  onConsent: (consent: boolean) => void;
+  recordings: FinishedRecording[];
+}
+
+const UPLOAD_TEXT: Record<FinishedRecording['upload'], MessageKey | null> = {
+  off: null,
+  pending: 'recording.uploading',
+  done: 'recording.uploaded',
+  failed: 'recording.uploadFailed',
+};
+
+/** The on-screen consent prompt, the live indicator, and downloads of finished recordings. */
+export const RecordingPanel: React.FC<RecordingPanelProps> = ({ state, retentionDays, onConsent, recordings }) => {
+  const { t } = useI18n();
+
+  return (
+    <>
+      {state === 'asking' && (
+        <div className="max-w-xs w-full text-center p-3 bg-slate-50 text-slate-700 rounded-xl border border-slate-200" role="dialog" aria-label={t('recording.consentTitle')}>
+          <p className="text-[10px] font-bold uppercase tracking-tight">{t('recording.consentTitle')}</p>
+          <p className="text-[10px] mt-0.5">{t('recording.consentBody', { days: retentionDays })}</p>
+          <div className="flex justify-center gap-2 mt-2">
+            <button onClick={() => onConsent(true)} className="px-4 py-1.5 rounded-full bg-slate-900 text-white text-[10px] font-bold uppercase tracking-wider">
+              {t('recording.allow')}
+            </button>
+            <button onClick={() => onConsent(false)} className="px-4 py-1.5 rounded-full bg-white text-slate-600 border border-slate-200 text-[10px] font-bold uppercase tracking-wider">
+              {t('recording.decline')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {state === 'recording' && (
+        <div className="flex items-center gap-2 text-[9px] font-bold uppercase tracking-widest text-red-500" role="status">
+          <span className="w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse" />
+          {t('recording.active')}
+        </div>
+      )}
+
+      {recordings.map(r => (
+        <div key={r.url} className="flex items-center gap-2 text-[10px] font-bold">
+          <a href={r.url} download={r.fileName} className="text-cyan-700 underline underline-offset-2">
+            {t('recording.download')}
+          </a>
+          {UPLOAD_TEXT[r.upload] && <span className="text-slate-400 uppercase tracking-tight">{t(UPLOAD_TEXT[r.upload]!)}</span>}
+        </div>
+      ))}
+    </>
+  );
+};
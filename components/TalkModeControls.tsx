@@ -0,0 +1,61 @@
+
+import React from 'react';
+import { TalkMode } from '../types';
+import { useI18n } from '../i18n/I18nProvider';
+import { MessageKey } from '../i18n/messages';
+
+interface TalkModeControlsProps {
+  mode: TalkMode;
+  onModeChange: (mode: TalkMode) => void;
+  inCall: boolean;
+  isTalking: boolean;
+  onTalkStart: () => void;
+  onTalkEnd: () => void;
+}
+
+const MODES: { id: TalkMode; label: MessageKey }[] = [
+  { id: 'open-mic', label: 'talk.openMic' },
+  { id: 'push-to-talk', label: 'talk.pushToTalk' },
+];
+
+/** Mode picker before a call; in push-to-talk calls, the hold-to-talk button. */
+export const TalkModeControls: React.FC<TalkModeControlsProps> = ({
+  mode, onModeChange, inCall, isTalking, onTalkStart, onTalkEnd,
+}) => {
+  const { t } = useI18n();
+  if (inCall && mode === 'push-to-talk') {
+    return (
+      <button
+        onPointerDown={e => { e.currentTarget.setPointerCapture(e.pointerId); onTalkStart(); }}
+        onPointerUp={onTalkEnd}
+        onPointerCancel={onTalkEnd}
+        onContextMenu={e => e.preventDefault()}
+        className={`select-none touch-none px-8 py-3 rounded-full text-xs font-bold uppercase tracking-wider border transition-all ${
+          isTalking
+            ? 'bg-green-500 text-white border-green-500 scale-105 shadow-lg'
+            : 'bg-white text-slate-700 border-slate-200 hover:bg-slate-50'
+        }`}
+      >
+        {t(isTalking ? 'talk.release' : 'talk.hold')}
+      </button>
+    );
+  }
+
+  if (inCall) return null;
+
+  return (
+    <div className="flex bg-slate-100 rounded-full p-1 text-[10px] font-bold uppercase tracking-wider">
+      {MODES.map(m => (
+        <button
+          key={m.id}
+          onClick={() => onModeChange(m.id)}
+          className={`px-4 py-1.5 rounded-full transition-all ${
+            mode === m.id ? 'bg-white text-slate-900 shadow' : 'text-slate-400 hover:text-slate-600'
+          }`}
+        >
+          {t(m.label)}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+
+import React, { useEffect, useRef } from 'react';
+import { MessageLog } from '../types';
+import { textDirection } from '../utils/transcript';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface TranscriptPanelProps {
+  messages: MessageLog[];
+}
+
+export const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ messages }) => {
+  const { t } = useI18n();
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [messages]);
+
+  if (messages.length === 0) return null;
+
+  return (
+    <div
+      ref={scrollRef}
+      className="w-full max-w-md max-h-48 overflow-y-auto space-y-2 px-4 py-3 bg-slate-50 rounded-2xl border border-slate-100"
+      aria-live="polite"
+    >
+      {messages.map((m, i) => {
+        const dir = textDirection(m.text);
+        const isUser = m.role === 'user';
+        return (
+          <div key={i} className={`flex ${isUser ? 'justify-end' : 'justify-start'}`}>
+            <div
+              dir={dir}
+              className={`max-w-[85%] px-3 py-2 rounded-xl text-xs leading-relaxed ${
+                isUser ? 'bg-slate-900 text-white' : 'bg-white text-slate-800 border border-slate-100'
+              } ${dir === 'rtl' ? 'arabic text-right' : 'text-left'} ${m.isFinal ? '' : 'opacity-60 italic'}`}
+            >
+              <span className="block text-[8px] font-bold uppercase tracking-widest opacity-60 mb-0.5">
+                {t(isUser ? 'speaker.user' : 'speaker.assistant')}
+              </span>
+              {m.text}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
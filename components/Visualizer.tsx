@@ -1,28 +1,125 @@
 
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { rmsLevel, speechBandLevels } from '../utils/audioLevels';
+import { useI18n } from '../i18n/I18nProvider';
+
+type MicState = 'ok' | 'muted' | 'no-signal';
 
 interface VisualizerProps {
   active: boolean;
-  color?: string;
+  inputAnalyser: AnalyserNode | null;
+  outputAnalyser: AnalyserNode | null;
+  micTrack?: MediaStreamTrack | null;
 }
 
-export const Visualizer: React.FC<VisualizerProps> = ({ active, color = 'bg-blue-600' }) => {
-  return (
-    <div className="flex items-center justify-center space-x-1.5 h-16">
-      {[...Array(5)].map((_, i) => (
+const BAR_COUNT = 5;
+const MIN_HEIGHT = 6;
+const MAX_HEIGHT = 56;
+/**
+ * A mic that has stayed below this RMS for NO_SIGNAL_MS since the call started,
+ * not counting time the assistant was speaking, is treated as picking up nothing.
+ * Once it has picked anything up, quiet is the caller listening.
+ */
+const NO_SIGNAL_RMS = 0.003;
+const NO_SIGNAL_MS = 3000;
+
+function paint(bars: (HTMLDivElement | null)[], levels: number[]) {
+  bars.forEach((bar, i) => {
+    if (bar) bar.style.height = `${MIN_HEIGHT + (levels[i] ?? 0) * (MAX_HEIGHT - MIN_HEIGHT)}px`;
+  });
+}
+
+const BarGroup: React.FC<{
+  label: string;
+  color: string;
+  barsRef: React.MutableRefObject<(HTMLDivElement | null)[]>;
+  dimmed: boolean;
+}> = ({ label, color, barsRef, dimmed }) => (
+  <div className="flex flex-col items-center">
+    <div className={`flex items-center gap-1 h-16 ${dimmed ? 'opacity-20' : ''}`}>
+      {[...Array(BAR_COUNT)].map((_, i) => (
         <div
           key={i}
-          className={`${color} w-2.5 rounded-full transition-all duration-500 ease-in-out ${
-            active 
-              ? `animate-bounce h-12` 
-              : 'h-3 opacity-20'
-          }`}
-          style={{ 
-            animationDelay: active ? `${i * 0.15}s` : '0s',
-            animationDuration: '0.8s'
-          }}
+          ref={el => { barsRef.current[i] = el; }}
+          className={`${color} w-2 rounded-full transition-[height] duration-75 ease-out`}
+          style={{ height: MIN_HEIGHT }}
         />
       ))}
     </div>
+    <span className="text-[8px] font-bold uppercase tracking-widest text-slate-400 mt-1">{label}</span>
+  </div>
+);
+
+/**
+ * Live frequency bars for the caller (input stream) and the assistant (output
+ * gain node). Bars are painted straight to the DOM from requestAnimationFrame;
+ * React only re-renders when the mic state label changes.
+ */
+export const Visualizer: React.FC<VisualizerProps> = ({ active, inputAnalyser, outputAnalyser, micTrack }) => {
+  const { t } = useI18n();
+  const userBarsRef = useRef<(HTMLDivElement | null)[]>([]);
+  const assistantBarsRef = useRef<(HTMLDivElement | null)[]>([]);
+  const micStateRef = useRef<MicState>('ok');
+  const [micState, setMicState] = useState<MicState>('ok');
+
+  useEffect(() => {
+    const silent = new Array(BAR_COUNT).fill(0);
+    if (!active) {
+      paint(userBarsRef.current, silent);
+      paint(assistantBarsRef.current, silent);
+      micStateRef.current = 'ok';
+      setMicState('ok');
+      return;
+    }
+
+    const freqIn = new Uint8Array(inputAnalyser?.frequencyBinCount ?? 0);
+    const timeIn = new Float32Array(inputAnalyser?.fftSize ?? 0);
+    const freqOut = new Uint8Array(outputAnalyser?.frequencyBinCount ?? 0);
+    const timeOut = new Float32Array(outputAnalyser?.fftSize ?? 0);
+    let silentSince = performance.now();
+    let heardSignal = false;
+    let frame = 0;
+
+    const draw = (now: number) => {
+      if (inputAnalyser) {
+        inputAnalyser.getByteFrequencyData(freqIn);
+        inputAnalyser.getFloatTimeDomainData(timeIn);
+        paint(userBarsRef.current, speechBandLevels(freqIn, inputAnalyser.context.sampleRate, BAR_COUNT));
+        if (rmsLevel(timeIn) > NO_SIGNAL_RMS) heardSignal = true;
+      } else {
+        paint(userBarsRef.current, silent);
+      }
+      if (outputAnalyser) {
+        outputAnalyser.getByteFrequencyData(freqOut);
+        outputAnalyser.getFloatTimeDomainData(timeOut);
+        paint(assistantBarsRef.current, speechBandLevels(freqOut, outputAnalyser.context.sampleRate, BAR_COUNT));
+        if (rmsLevel(timeOut) > NO_SIGNAL_RMS) silentSince = now;
+      }
+
+      const muted = !!micTrack && (micTrack.muted || !micTrack.enabled || micTrack.readyState === 'ended');
+      const noSignal = !!inputAnalyser && !heardSignal && now - silentSince > NO_SIGNAL_MS;
+      const next: MicState = muted ? 'muted' : noSignal ? 'no-signal' : 'ok';
+      if (next !== micStateRef.current) {
+        micStateRef.current = next;
+        setMicState(next);
+      }
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [active, inputAnalyser, outputAnalyser, micTrack]);
+
+  return (
+    <div className="flex flex-col items-center justify-center">
+      <div className="flex items-end gap-5">
+        <BarGroup label={t('speaker.user')} color="bg-green-500" barsRef={userBarsRef} dimmed={!active || micState === 'muted'} />
+        <BarGroup label={t('speaker.assistant')} color="bg-cyan-500" barsRef={assistantBarsRef} dimmed={!active} />
+      </div>
+      {active && micState !== 'ok' && (
+        <span className="mt-2 text-[8px] font-bold uppercase tracking-widest text-red-500">
+          {t(micState === 'muted' ? 'mic.muted' : 'mic.noSignal')}
+        </span>
+      )}
+    </div>
   );
 };
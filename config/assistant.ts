@@ -0,0 +1,63 @@
+import { LiveConnectConfig, Modality, SpeechConfig } from '@google/genai';
+import { toolRegistry } from '../tools';
+import { Locale, localeTag } from '../i18n/locales';
+import { AssistantProfile, PROFILE_ID_PATTERN, PublicProfile, buildSystemInstruction, localizeProfile } from './profiles';
+
+const OPENING_LANGUAGE: Record<Locale, string> = {
+  en: 'Opening language: greet the customer and start in English. Switch to Arabic as soon as they speak Arabic.',
+  ar: 'Opening language: greet the customer and start in Egyptian Arabic. Switch to English as soon as they speak English.',
+};
+
+// Native-audio models pick the spoken language themselves and reject a language
+// code, so for them the opening language comes from the instruction alone.
+function speechConfig(voice: string, model: string, locale?: Locale): SpeechConfig {
+  return {
+    voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } },
+    ...(locale && !model.includes('native-audio') ? { languageCode: localeTag(locale) } : {}),
+  };
+}
+
+// The client marks turns itself with activityStart/activityEnd, which the API
+// only accepts with its own voice detection off.
+const MANUAL_ACTIVITY_DETECTION: LiveConnectConfig['realtimeInputConfig'] = {
+  automaticActivityDetection: { disabled: true },
+};
+
+/**
+ * The live session config for a profile. The token server locks this config
+ * into each ephemeral token, so the browser cannot swap the persona or tools.
+ */
+export function buildLiveConfig(profile: AssistantProfile, extraNotes: string[] = [], locale?: Locale): LiveConnectConfig {
+  const notes = locale ? [...extraNotes, OPENING_LANGUAGE[locale]] : extraNotes;
+  return {
+    responseModalities: [Modality.AUDIO],
+    speechConfig: speechConfig(localizeProfile(profile, locale).voice, profile.model, locale),
+    systemInstruction: buildSystemInstruction(profile, notes),
+    inputAudioTranscription: {},
+    outputAudioTranscription: {},
+    tools: [{ functionDeclarations: toolRegistry.declarations(profile.enabledTools) }],
+    realtimeInputConfig: MANUAL_ACTIVITY_DETECTION,
+  };
+}
+
+/**
+ * What the browser passes to `live.connect`. The token already locks the
+ * instruction and tools; these mirror the audio settings the client relies on.
+ * Fields the token leaves unset, such as the resumption handle, are taken
+ * from here.
+ */
+export function buildClientSessionConfig(profile: PublicProfile): LiveConnectConfig {
+  return {
+    responseModalities: [Modality.AUDIO],
+    speechConfig: speechConfig(profile.voice, profile.model, profile.locale),
+    inputAudioTranscription: {},
+    outputAudioTranscription: {},
+    realtimeInputConfig: MANUAL_ACTIVITY_DETECTION,
+  };
+}
+
+/** Selected by `?profile=` in the widget URL; the host can also pick one over the embed protocol. */
+export function profileIdFromUrl(search = typeof window !== 'undefined' ? window.location.search : ''): string | undefined {
+  const id = new URLSearchParams(search).get('profile');
+  return id && PROFILE_ID_PATTERN.test(id) ? id : undefined;
+}
@@ -0,0 +1,55 @@
+/**
+ * Checks run on what the assistant actually said (its output transcript).
+ * `correction` is sent back into the session when the rule is broken; "{match}"
+ * is replaced with the offending words.
+ */
+export type GuardrailRule =
+  | {
+      id: string;
+      kind: 'forbidden';
+      /** Words that must never be said. */
+      terms: string[];
+      /** Whole phrases that deny a term ("not a sports club"); the term is allowed only inside one of these. */
+      allowedPhrases?: string[];
+      correction: string;
+    }
+  | {
+      id: string;
+      kind: 'spelling';
+      /** Misspellings or mispronunciations of `expected`. */
+      variants: string[];
+      expected: string;
+      correction: string;
+    }
+  | {
+      id: string;
+      kind: 'off-topic';
+      keywords: string[];
+      /** Distinct keywords needed in one turn before it counts, so a passing mention does not. */
+      minHits: number;
+      correction: string;
+    };
+
+export const DEFAULT_GUARDRAIL_RULES: GuardrailRule[] = [
+  {
+    id: 'brand-not-sports',
+    kind: 'forbidden',
+    terms: ['رياضة', 'sports club', 'sport club'],
+    allowedPhrases: ['not a sports club', "isn't a sports club", 'مش شركة رياضة', 'ليست شركة رياضة'],
+    correction: 'You just said "{match}". The company is رِيَادَة with Dal (د), meaning leadership; it is not رياضة (sports). Correct yourself briefly and use the right name from now on.',
+  },
+  {
+    id: 'brand-spelling',
+    kind: 'spelling',
+    variants: ['Riyada', 'Riadah', 'Riada', 'Reyada', 'Reyadah', 'Riyadha'],
+    expected: 'Riyadah',
+    correction: 'You said "{match}". The company name is "Riyadah" (Ree-YAA-dah). Pronounce it that way from now on.',
+  },
+  {
+    id: 'off-topic-sports',
+    kind: 'off-topic',
+    keywords: ['football', 'soccer', 'gym', 'fitness', 'league', 'كرة القدم', 'الدوري', 'مباراة', 'لياقة'],
+    minHits: 2,
+    correction: 'Stay on Riyadah\'s technology and infrastructure services. Riyadah has nothing to do with sports; steer the conversation back.',
+  },
+];
@@ -0,0 +1,177 @@
+import { BUSINESS_TIME_ZONE, toWallTime } from '../utils/datetime';
+import { Locale, SUPPORTED_LOCALES } from '../i18n/locales';
+
+export interface BusinessHours {
+  timeZone: string;
+  /** Open weekdays, 0 = Sunday. */
+  days: number[];
+  /** "HH:MM", wall time in `timeZone`. */
+  open: string;
+  close: string;
+  /** Profile to use instead when closed. */
+  afterHoursProfile?: string;
+  /** Added to the instruction when closed and no after-hours profile is set. */
+  afterHoursNote?: string;
+}
+
+export interface AssistantProfile {
+  id: string;
+  name: string;
+  persona: string;
+  pronunciationRules: string[];
+  protocol: string[];
+  tone: string;
+  voice: string;
+  model: string;
+  enabledTools: string[];
+  greeting: string;
+  businessHours?: BusinessHours;
+  /** Per-locale overrides of the voice and the opening line. */
+  localized?: Partial<Record<Locale, { voice?: string; greeting?: string }>>;
+}
+
+/**
+ * What the browser gets back with its token; the instruction text stays on the
+ * server. Voice and greeting are already resolved for `locale`.
+ */
+export type PublicProfile = Pick<AssistantProfile, 'id' | 'name' | 'voice' | 'model' | 'greeting' | 'enabledTools'> & {
+  locale?: Locale;
+};
+
+export const DEFAULT_PROFILE_ID = 'default';
+export const PROFILE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+/** Base files hold what profiles share; the leading "_" keeps them from being picked as a profile. */
+export const PROFILE_BASE_PATTERN = /^_[a-z0-9][a-z0-9-]{0,39}$/;
+
+const PREBUILT_VOICES = ['Puck', 'Charon', 'Kore', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class ProfileValidationError extends Error {
+  constructor(public readonly profileId: string, public readonly issues: string[]) {
+    super(`Invalid assistant profile "${profileId}": ${issues.join('; ')}`);
+  }
+}
+
+const isString = (v: unknown): v is string => typeof v === 'string' && v.trim().length > 0;
+const isStringList = (v: unknown): v is string[] => Array.isArray(v) && v.every(isString);
+
+/**
+ * Checks a parsed profile file. `knownTools` are the registry's tool names;
+ * enabling anything else is an error rather than a silently missing tool.
+ */
+export function validateProfile(raw: unknown, knownTools: string[], fallbackId = '?'): AssistantProfile {
+  const issues: string[] = [];
+  const p = (raw && typeof raw === 'object' ? raw : {}) as Record<string, any>;
+  const id = isString(p.id) ? p.id : fallbackId;
+
+  if (!isString(p.id) || !PROFILE_ID_PATTERN.test(p.id)) issues.push('id must be lower-case letters, digits and dashes');
+  for (const field of ['name', 'persona', 'tone', 'model', 'greeting']) {
+    if (!isString(p[field])) issues.push(`${field} must be a non-empty string`);
+  }
+  for (const field of ['pronunciationRules', 'protocol']) {
+    if (!isStringList(p[field])) issues.push(`${field} must be a list of strings`);
+  }
+  if (!PREBUILT_VOICES.includes(p.voice)) issues.push(`voice must be one of ${PREBUILT_VOICES.join(', ')}`);
+  if (!isStringList(p.enabledTools) || p.enabledTools.length === 0) {
+    issues.push('enabledTools must be a non-empty list of tool names');
+  } else {
+    const unknown = p.enabledTools.filter((t: string) => !knownTools.includes(t));
+    if (unknown.length) issues.push(`unknown tools: ${unknown.join(', ')}`);
+  }
+
+  if (p.businessHours !== undefined) {
+    const h = p.businessHours;
+    if (!h || typeof h !== 'object') {
+      issues.push('businessHours must be an object');
+    } else {
+      if (!isString(h.timeZone)) issues.push('businessHours.timeZone must be set');
+      else {
+        try { new Intl.DateTimeFormat('en-US', { timeZone: h.timeZone }); }
+        catch { issues.push(`businessHours.timeZone "${h.timeZone}" is not a time zone`); }
+      }
+      if (!Array.isArray(h.days) || !h.days.every((d: unknown) => Number.isInteger(d) && (d as number) >= 0 && (d as number) <= 6)) {
+        issues.push('businessHours.days must list weekdays 0-6');
+      }
+      if (!TIME_PATTERN.test(h.open) || !TIME_PATTERN.test(h.close) || h.open >= h.close) {
+        issues.push('businessHours.open and close must be HH:MM with open before close');
+      }
+      if (h.afterHoursProfile !== undefined && (!isString(h.afterHoursProfile) || !PROFILE_ID_PATTERN.test(h.afterHoursProfile))) {
+        issues.push('businessHours.afterHoursProfile must be a profile id');
+      }
+      if (h.afterHoursNote !== undefined && !isString(h.afterHoursNote)) {
+        issues.push('businessHours.afterHoursNote must be a string');
+      }
+    }
+  }
+
+  if (p.localized !== undefined) {
+    if (!p.localized || typeof p.localized !== 'object') {
+      issues.push('localized must be an object keyed by locale');
+    } else {
+      for (const [locale, overrides] of Object.entries(p.localized as Record<string, any>)) {
+        if (!(SUPPORTED_LOCALES as string[]).includes(locale)) issues.push(`localized.${locale} is not a supported locale`);
+        else if (!overrides || typeof overrides !== 'object') issues.push(`localized.${locale} must be an object`);
+        else {
+          if (overrides.voice !== undefined && !PREBUILT_VOICES.includes(overrides.voice)) {
+            issues.push(`localized.${locale}.voice must be one of ${PREBUILT_VOICES.join(', ')}`);
+          }
+          if (overrides.greeting !== undefined && !isString(overrides.greeting)) {
+            issues.push(`localized.${locale}.greeting must be a non-empty string`);
+          }
+        }
+      }
+    }
+  }
+
+  if (issues.length) throw new ProfileValidationError(id, issues);
+  return p as AssistantProfile;
+}
+
+/**
+ * Applies a profile file over the base it `extends`. Its fields replace the
+ * base's, except `pronunciationRules` and `protocol`, whose lines follow the
+ * base's, and `localized`, which is merged per locale.
+ */
+export function extendProfile(base: Record<string, any>, file: Record<string, any>): Record<string, any> {
+  const { extends: _, ...own } = file;
+  const merged: Record<string, any> = { ...base, ...own };
+  delete merged.extends;
+  for (const field of ['pronunciationRules', 'protocol']) {
+    if (Array.isArray(base[field]) && Array.isArray(own[field])) merged[field] = [...base[field], ...own[field]];
+  }
+  if (base.localized && own.localized && typeof base.localized === 'object' && typeof own.localized === 'object') {
+    merged.localized = { ...base.localized };
+    for (const [locale, overrides] of Object.entries(own.localized)) {
+      merged.localized[locale] = { ...base.localized[locale], ...(overrides as object) };
+    }
+  }
+  return merged;
+}
+
+export function isWithinBusinessHours(hours: BusinessHours, now = new Date()): boolean {
+  const wall = toWallTime(now, hours.timeZone || BUSINESS_TIME_ZONE);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const time = `${pad(wall.hour)}:${pad(wall.minute)}`;
+  return hours.days.includes(wall.weekday) && time >= hours.open && time < hours.close;
+}
+
+export function buildSystemInstruction(profile: AssistantProfile, extraNotes: string[] = []): string {
+  return [
+    profile.persona,
+    `Core Identity & Pronunciation Rules:\n${profile.pronunciationRules.map(r => `- ${r}`).join('\n')}`,
+    `Protocol:\n${profile.protocol.map((r, i) => `${i + 1}. ${r}`).join('\n')}`,
+    ...extraNotes,
+    `Tone: ${profile.tone}`,
+  ].join('\n\n');
+}
+
+/** The voice and greeting for `locale`, falling back to the profile's defaults. */
+export function localizeProfile(profile: AssistantProfile, locale?: Locale): { voice: string; greeting: string } {
+  const overrides = (locale && profile.localized?.[locale]) || {};
+  return { voice: overrides.voice || profile.voice, greeting: overrides.greeting || profile.greeting };
+}
+
+export function toPublicProfile(profile: AssistantProfile, locale?: Locale): PublicProfile {
+  const { id, name, model, enabledTools } = profile;
+  return { id, name, model, enabledTools, ...localizeProfile(profile, locale), locale };
+}
@@ -0,0 +1,47 @@
+/**
+ * Call recording for quality review. Off unless enabled; when on, nothing is
+ * captured until the caller agrees, on screen or aloud.
+ */
+export interface RecordingConfig {
+  enabled: boolean;
+  /** Upload each finished recording through the recordings adapter. */
+  upload: boolean;
+  /** Recording stops after this long; the call itself goes on. */
+  maxMinutes: number;
+  /** Sent with each upload as `expiresAt`; the store deletes the recording after it. */
+  retentionDays: number;
+  /** Finished recordings kept in the page for download; older ones are released. */
+  keepLocal: number;
+}
+
+export const DEFAULT_RECORDING_CONFIG: RecordingConfig = {
+  enabled: false,
+  upload: false,
+  maxMinutes: 20,
+  retentionDays: 30,
+  keepLocal: 3,
+};
+
+/** 24 kHz 16-bit stereo WAV: 96 kB per second, about 5.8 MB per minute. */
+export const RECORDING_BYTES_PER_MINUTE = 24000 * 2 * 2 * 60;
+
+/** Multipart framing plus the metadata (transcript, tool log) sent with the audio. */
+const UPLOAD_OVERHEAD_BYTES = 2 * 1024 * 1024;
+
+/** The largest upload a recording of `maxMinutes` makes; the token server's limit defaults to it. */
+export function recordingUploadBytes(maxMinutes: number): number {
+  return Math.ceil(maxMinutes * RECORDING_BYTES_PER_MINUTE) + UPLOAD_OVERHEAD_BYTES;
+}
+
+const flag = (value: string | undefined) => value === 'true' || value === '1';
+
+/** Reads RECORDING_ENABLED and RECORDING_UPLOAD (off unless `true`/`1`) and the minute and day limits, which fall back to DEFAULT_RECORDING_CONFIG. */
+export function recordingConfigFromEnv(): RecordingConfig {
+  return {
+    ...DEFAULT_RECORDING_CONFIG,
+    enabled: flag(process.env.RECORDING_ENABLED),
+    upload: flag(process.env.RECORDING_UPLOAD),
+    maxMinutes: Number(process.env.RECORDING_MAX_MINUTES) || DEFAULT_RECORDING_CONFIG.maxMinutes,
+    retentionDays: Number(process.env.RECORDING_RETENTION_DAYS) || DEFAULT_RECORDING_CONFIG.retentionDays,
+  };
+}
@@ -0,0 +1,60 @@
+import { BusinessHours } from './profiles';
+import { BUSINESS_TIME_ZONE } from '../utils/datetime';
+
+export interface ScheduleConfig extends Pick<BusinessHours, 'timeZone' | 'days' | 'open' | 'close'> {
+  /** Closed days: "YYYY-MM-DD" for one date, "MM-DD" for one that recurs every year. */
+  holidays: string[];
+  meetingMinutes: number;
+  /** Offered start times step by this much from opening time. */
+  slotMinutes: number;
+  /** The earliest bookable start is this far from now. */
+  minNoticeMinutes: number;
+  /** How many days ahead, counting today, can be booked. */
+  horizonDays: number;
+}
+
+export type CalendarSourceKind = 'rest' | 'memory';
+
+export interface CalendarConfig {
+  source: CalendarSourceKind;
+  /** The shared calendar every browser books through; the token server's `/api/calendar` by default. */
+  url?: string;
+}
+
+// Lunar holidays move every year and are announced late; check these against the
+// official calendar each December and replace the dated entries.
+const EGYPT_HOLIDAYS = [
+  '01-07', // Coptic Christmas
+  '01-25', // Revolution Day
+  '04-25', // Sinai Liberation Day
+  '05-01', // Labour Day
+  '06-30', // June 30 Revolution
+  '07-23', // Revolution Day
+  '10-06', // Armed Forces Day
+  '2026-03-20', '2026-03-21', '2026-03-22', // Eid al-Fitr
+  '2026-04-13', // Sham El-Nessim
+  '2026-05-26', // Arafat Day
+  '2026-05-27', '2026-05-28', '2026-05-29', // Eid al-Adha
+  '2026-06-16', // Islamic New Year
+  '2026-08-25', // Prophet's Birthday
+];
+
+export const DEFAULT_SCHEDULE: ScheduleConfig = {
+  timeZone: BUSINESS_TIME_ZONE,
+  days: [0, 1, 2, 3, 4],
+  open: '09:00',
+  close: '17:00',
+  holidays: EGYPT_HOLIDAYS,
+  meetingMinutes: 30,
+  slotMinutes: 30,
+  minNoticeMinutes: 120,
+  horizonDays: 30,
+};
+
+/** Reads CALENDAR_SOURCE (`memory`, otherwise the REST calendar) and CALENDAR_URL. */
+export function calendarConfigFromEnv(): CalendarConfig {
+  return {
+    source: process.env.CALENDAR_SOURCE === 'memory' ? 'memory' : 'rest',
+    url: process.env.CALENDAR_URL || undefined,
+  };
+}
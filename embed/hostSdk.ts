@@ -0,0 +1,93 @@
+import { HostCommand, HostContext, WidgetEvent, isEnvelope, wrap } from './protocol';
+
+export type { HostContext, WidgetEvent } from './protocol';
+
+export interface MountOptions {
+  /** Element the iframe is appended to. */
+  container: HTMLElement;
+  /** Full URL of the deployed widget. Its origin is the only one events are accepted from. */
+  widgetUrl: string;
+  /** Sent as soon as the widget reports ready. */
+  context?: HostContext;
+  /** Assistant profile id, e.g. "sales" or "support". */
+  profile?: string;
+  width?: string;
+  height?: string;
+}
+
+type EventType = WidgetEvent['type'];
+type Handler<T extends EventType> = (event: Extract<WidgetEvent, { type: T }>) => void;
+
+export interface RiyadahWidgetHandle {
+  iframe: HTMLIFrameElement;
+  /**
+   * Browsers only allow audio after a user gesture inside the iframe, so a
+   * call started from the host page may need one click in the widget first.
+   */
+  startCall: () => void;
+  endCall: () => void;
+  setContext: (context: HostContext) => void;
+  /** Applies from the next call started in the widget. */
+  setProfile: (profile: string) => void;
+  on: <T extends EventType>(type: T, handler: Handler<T>) => () => void;
+  destroy: () => void;
+}
+
+export function mount(options: MountOptions): RiyadahWidgetHandle {
+  const widgetOrigin = new URL(options.widgetUrl, window.location.href).origin;
+  const iframe = document.createElement('iframe');
+  iframe.src = options.widgetUrl;
+  iframe.allow = 'microphone; autoplay';
+  iframe.title = 'Riyadah voice assistant';
+  iframe.style.border = '0';
+  iframe.style.width = options.width || '100%';
+  iframe.style.height = options.height || '600px';
+  options.container.appendChild(iframe);
+
+  const handlers = new Map<EventType, Set<(event: WidgetEvent) => void>>();
+  let ready = false;
+  let pending: HostCommand[] = [
+    ...(options.profile ? [{ type: 'set-profile' as const, profile: options.profile }] : []),
+    ...(options.context ? [{ type: 'set-context' as const, context: options.context }] : []),
+  ];
+
+  const post = (command: HostCommand) => {
+    if (!ready) {
+      pending.push(command);
+      return;
+    }
+    iframe.contentWindow?.postMessage(wrap(command), widgetOrigin);
+  };
+
+  const onMessage = (e: MessageEvent) => {
+    if (e.source !== iframe.contentWindow || e.origin !== widgetOrigin || !isEnvelope(e.data)) return;
+    const event = e.data as unknown as WidgetEvent;
+    if (event.type === 'ready') {
+      ready = true;
+      const queued = pending;
+      pending = [];
+      queued.forEach(post);
+    }
+    handlers.get(event.type)?.forEach(h => h(event));
+  };
+  window.addEventListener('message', onMessage);
+
+  return {
+    iframe,
+    startCall: () => post({ type: 'start-call' }),
+    endCall: () => post({ type: 'end-call' }),
+    setContext: context => post({ type: 'set-context', context }),
+    setProfile: profile => post({ type: 'set-profile', profile }),
+    on: (type, handler) => {
+      const set = handlers.get(type) || new Set();
+      set.add(handler as (event: WidgetEvent) => void);
+      handlers.set(type, set);
+      return () => set.delete(handler as (event: WidgetEvent) => void);
+    },
+    destroy: () => {
+      window.removeEventListener('message', onMessage);
+      handlers.clear();
+      iframe.remove();
+    },
+  };
+}
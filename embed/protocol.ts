@@ -0,0 +1,92 @@
+import { ConnectionStatus, MessageLog } from '../types';
+import { isRecord } from '../utils/validation';
+
+/**
+ * postMessage protocol between the widget iframe and the page embedding it.
+ * Every message carries `channel` and `version` so unrelated messages on the
+ * same window are ignored.
+ */
+export const EMBED_CHANNEL = 'riyadah-widget';
+export const EMBED_PROTOCOL_VERSION = 1;
+
+export interface HostContext {
+  name?: string;
+  email?: string;
+  phone?: string;
+  /** Page the customer is on, so the assistant knows what they were looking at. */
+  pageUrl?: string;
+  /** Free-form key/value details such as an account or order number. */
+  extra?: Record<string, string>;
+}
+
+export type ActionEventKind = 'meeting_booked' | 'ticket_created' | 'sales_interest_logged' | 'handoff_requested';
+
+export const ACTION_EVENT_KINDS: Record<string, ActionEventKind> = {
+  book_meeting: 'meeting_booked',
+  create_support_ticket: 'ticket_created',
+  log_sales_interest: 'sales_interest_logged',
+  request_human_agent: 'handoff_requested',
+};
+
+/** Host page → widget. */
+export type HostCommand =
+  | { type: 'start-call' }
+  | { type: 'end-call' }
+  | { type: 'set-context'; context: HostContext }
+  | { type: 'set-profile'; profile: string };
+
+/** Widget → host page. */
+export type WidgetEvent =
+  | { type: 'ready' }
+  | { type: 'status'; status: ConnectionStatus }
+  | { type: 'transcript'; role: MessageLog['role']; text: string; timestamp: string }
+  | { type: 'action'; kind: ActionEventKind; tool: string; status: string; reference?: string; details: Record<string, unknown> }
+  | { type: 'error'; message: string };
+
+export type EmbedEnvelope<T> = T & { channel: typeof EMBED_CHANNEL; version: number };
+
+export function wrap<T extends object>(message: T): EmbedEnvelope<T> {
+  return { ...message, channel: EMBED_CHANNEL, version: EMBED_PROTOCOL_VERSION };
+}
+
+export function isEnvelope(data: unknown): data is EmbedEnvelope<Record<string, unknown> & { type: string }> {
+  return isRecord(data)
+    && data.channel === EMBED_CHANNEL
+    && data.version === EMBED_PROTOCOL_VERSION
+    && typeof data.type === 'string';
+}
+
+/** Drops anything that is not a plain string so host input cannot smuggle objects into prompts. */
+export function sanitizeContext(raw: unknown): HostContext {
+  if (!raw || typeof raw !== 'object') return {};
+  const r = raw as Record<string, unknown>;
+  const str = (v: unknown, max = 200) => (typeof v === 'string' && v.trim() ? v.trim().slice(0, max) : undefined);
+  const extra: Record<string, string> = {};
+  if (r.extra && typeof r.extra === 'object') {
+    for (const [k, v] of Object.entries(r.extra as Record<string, unknown>).slice(0, 10)) {
+      const value = str(v);
+      if (value) extra[k.slice(0, 40)] = value;
+    }
+  }
+  return {
+    name: str(r.name),
+    email: str(r.email),
+    phone: str(r.phone),
+    pageUrl: str(r.pageUrl, 500),
+    extra: Object.keys(extra).length ? extra : undefined,
+  };
+}
+
+/** The note that tells the live session who the customer is before they speak. */
+export function describeHostContext(context: HostContext): string {
+  const lines = [
+    context.name && `Name: ${context.name}`,
+    context.phone && `Phone: ${context.phone}`,
+    context.email && `Email: ${context.email}`,
+    context.pageUrl && `Currently viewing: ${context.pageUrl}`,
+    ...Object.entries(context.extra ?? {}).map(([k, v]) => `${k}: ${v}`),
+  ].filter(Boolean);
+  if (!lines.length) return '';
+  return `[System note] The website has identified the customer:\n${lines.join('\n')}\n`
+    + 'Use these details for any booking, ticket or sales request; only confirm them with the customer instead of asking again. Do not reply to this note.';
+}
@@ -0,0 +1,59 @@
+import { HostCommand, WidgetEvent, isEnvelope, sanitizeContext, wrap } from './protocol';
+
+export interface WidgetBridge {
+  emit: (event: WidgetEvent) => void;
+  destroy: () => void;
+}
+
+/** Origins allowed to embed and control the widget, from `EMBED_ALLOWED_ORIGINS`. */
+export function embedAllowedOrigins(): string[] {
+  return (process.env.EMBED_ALLOWED_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean);
+}
+
+/**
+ * Widget side of the embed protocol. Commands are accepted only from the
+ * parent window and only from allow-listed origins; events go only to the
+ * host origin that was verified, never to '*'.
+ */
+export function createWidgetBridge(
+  allowedOrigins: string[],
+  onCommand: (command: HostCommand) => void,
+): WidgetBridge | null {
+  if (typeof window === 'undefined' || window.parent === window || allowedOrigins.length === 0) return null;
+
+  let hostOrigin: string | null = null;
+  try {
+    const referrer = document.referrer ? new URL(document.referrer).origin : null;
+    if (referrer && allowedOrigins.includes(referrer)) hostOrigin = referrer;
+  } catch {}
+
+  const onMessage = (e: MessageEvent) => {
+    if (e.source !== window.parent || !allowedOrigins.includes(e.origin) || !isEnvelope(e.data)) return;
+    hostOrigin = e.origin;
+    const data = e.data;
+    switch (data.type) {
+      case 'start-call':
+      case 'end-call':
+        onCommand({ type: data.type });
+        break;
+      case 'set-context':
+        onCommand({ type: 'set-context', context: sanitizeContext(data.context) });
+        break;
+      case 'set-profile':
+        if (typeof data.profile === 'string') onCommand({ type: 'set-profile', profile: data.profile });
+        break;
+    }
+  };
+  window.addEventListener('message', onMessage);
+
+  const emit = (event: WidgetEvent) => {
+    const targets = hostOrigin ? [hostOrigin] : event.type === 'ready' ? allowedOrigins : [];
+    // postMessage drops the message for every target that is not the parent's real origin.
+    targets.forEach(origin => window.parent.postMessage(wrap(event), origin));
+  };
+
+  return {
+    emit,
+    destroy: () => window.removeEventListener('message', onMessage),
+  };
+}
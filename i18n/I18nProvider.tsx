@@ -0,0 +1,54 @@
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { LOCALE_STORAGE_KEY, Locale, detectLocale, localeDirection } from './locales';
+import { MessageKey, translate } from './messages';
+
+interface I18nValue {
+  locale: Locale;
+  dir: 'rtl' | 'ltr';
+  t: (key: MessageKey, params?: Record<string, string | number>) => string;
+  /** The toggle: switches the UI and remembers the choice for the next visit. */
+  setLocale: (locale: Locale) => void;
+}
+
+const I18nContext = createContext<I18nValue | null>(null);
+
+function readStoredLocale(): string | null {
+  try {
+    return window.localStorage.getItem(LOCALE_STORAGE_KEY);
+  } catch {
+    return null; // storage can be blocked inside third-party iframes
+  }
+}
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(() =>
+    detectLocale(window.location.search, readStoredLocale(), navigator.languages ?? [navigator.language]),
+  );
+
+  // Mirrors the whole document, so scrollbars and native controls flip too.
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = localeDirection(locale);
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    try { window.localStorage.setItem(LOCALE_STORAGE_KEY, next); } catch {}
+  }, []);
+
+  const value = useMemo<I18nValue>(() => ({
+    locale,
+    dir: localeDirection(locale),
+    t: (key, params) => translate(locale, key, params),
+    setLocale,
+  }), [locale, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export function useI18n(): I18nValue {
+  const value = useContext(I18nContext);
+  if (!value) throw new Error('useI18n must be used inside <I18nProvider>.');
+  return value;
+}
@@ -0,0 +1,35 @@
+export type Locale = 'en' | 'ar';
+
+export const SUPPORTED_LOCALES: Locale[] = ['en', 'ar'];
+export const DEFAULT_LOCALE: Locale = 'en';
+
+/** Where the toggle remembers the customer's choice. */
+export const LOCALE_STORAGE_KEY = 'riyadah.locale';
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (SUPPORTED_LOCALES as string[]).includes(value);
+}
+
+export function localeDirection(locale: Locale): 'rtl' | 'ltr' {
+  return locale === 'ar' ? 'rtl' : 'ltr';
+}
+
+/** BCP 47 tag for `Intl` formatting and speech settings. */
+export function localeTag(locale: Locale): string {
+  return locale === 'ar' ? 'ar-EG' : 'en-US';
+}
+
+/**
+ * `?lang=` wins (hosts set it in the widget URL), then the toggle's saved
+ * choice, then the first browser language we support.
+ */
+export function detectLocale(search: string, stored: string | null, browserLanguages: readonly string[]): Locale {
+  const fromUrl = new URLSearchParams(search).get('lang')?.toLowerCase();
+  if (isLocale(fromUrl)) return fromUrl;
+  if (isLocale(stored)) return stored;
+  for (const language of browserLanguages) {
+    const base = language.toLowerCase().split('-')[0];
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+}
@@ -0,0 +1,147 @@
+import { Locale } from './locales';
+
+const en = {
+  'app.title': 'Riyadah Voice',
+  'app.subtitle': 'AI Assistant',
+  'welcome.title': 'Welcome to Riyadah',
+  'welcome.tagline': 'Professional Voice AI Service',
+
+  'status.disconnected': 'disconnected',
+  'status.connecting': 'connecting',
+  'status.connected': 'connected',
+  'status.reconnecting': 'reconnecting',
+  'status.error': 'error',
+
+  'call.start': 'Start Interaction',
+  'call.end': 'End Conversation',
+  'call.connecting': 'Connecting...',
+  'call.reconnecting': 'Connection lost. Reconnecting, please hold...',
+
+  'error.connectionLost': 'Call ended. Possible connection issue.',
+  'error.connectFailed': 'Failed to establish voice session.',
+  'error.profileNotFound': 'This assistant is not available. Please check the link.',
+  'error.rateLimited': 'Too many call attempts. Please wait a moment and try again.',
+  'notice.micDenied': 'Microphone access was denied. You can keep going by typing.',
+  'notice.micMissing': 'No microphone is available. You can keep going by typing.',
+
+  'mode.label': 'Conversation mode',
+  'mode.voice': 'Voice',
+  'mode.text': 'Text',
+  'talk.openMic': 'Open mic',
+  'talk.pushToTalk': 'Push to talk',
+  'talk.hold': 'Hold to talk (Space)',
+  'talk.release': 'Listening... release to send',
+  'chat.label': 'Message',
+  'chat.placeholder': 'Type your message...',
+  'chat.send': 'Send',
+
+  'speaker.user': 'You',
+  'speaker.assistant': 'Riyadah',
+  'mic.muted': 'Mic muted',
+  'mic.noSignal': 'No signal',
+
+  'handoff.queuedTitle': 'Waiting for an agent',
+  'handoff.queuedDetail': 'Position {position} · about {minutes} min',
+  'handoff.callbackTitle': 'Callback requested',
+  'handoff.callbackBy': 'An agent will call you by {time} (Cairo)',
+  'handoff.callbackSoon': 'An agent will call you back',
+  'handoff.unavailableTitle': 'No agent available',
+  'handoff.unavailableDetail': 'Ask for a callback or call the hotline below',
+  'handoff.reference': 'Ref {id}',
+
+  'recording.consentTitle': 'Record this call?',
+  'recording.consentBody': 'We only record with your permission, to review service quality. Recordings are deleted after {days} days.',
+  'recording.allow': 'Allow recording',
+  'recording.decline': 'Don\'t record',
+  'recording.active': 'Recording',
+  'recording.download': 'Download recording',
+  'recording.uploading': 'Uploading...',
+  'recording.uploaded': 'Saved for review',
+  'recording.uploadFailed': 'Upload failed',
+
+  'footer.company': '© 2026 Riyadah Ltd.',
+  'footer.hotline': 'Hotline:',
+  'footer.location': 'Cairo, Egypt',
+
+  'locale.label': 'Language',
+  /** The toggle names the language it switches to, in that language. */
+  'locale.switchTo': 'العربية',
+};
+
+export type MessageKey = keyof typeof en;
+
+// Typed against the English keys, so a missing Arabic string fails the type-check.
+const ar: Record<MessageKey, string> = {
+  'app.title': 'رِيَادَة الصوتي',
+  'app.subtitle': 'مساعد ذكي',
+  'welcome.title': 'أهلاً بك في رِيَادَة',
+  'welcome.tagline': 'خدمة صوتية احترافية بالذكاء الاصطناعي',
+
+  'status.disconnected': 'غير متصل',
+  'status.connecting': 'جارٍ الاتصال',
+  'status.connected': 'متصل',
+  'status.reconnecting': 'إعادة الاتصال',
+  'status.error': 'خطأ',
+
+  'call.start': 'ابدأ المحادثة',
+  'call.end': 'إنهاء المحادثة',
+  'call.connecting': 'جارٍ الاتصال...',
+  'call.reconnecting': 'انقطع الاتصال. جارٍ إعادة الاتصال، برجاء الانتظار...',
+
+  'error.connectionLost': 'انتهت المكالمة. قد تكون هناك مشكلة في الاتصال.',
+  'error.connectFailed': 'تعذّر بدء الجلسة الصوتية.',
+  'error.profileNotFound': 'هذا المساعد غير متاح. برجاء التحقق من الرابط.',
+  'error.rateLimited': 'محاولات اتصال كثيرة. برجاء الانتظار قليلاً ثم المحاولة مرة أخرى.',
+  'notice.micDenied': 'تم رفض الوصول إلى الميكروفون. يمكنك المتابعة بالكتابة.',
+  'notice.micMissing': 'لا يوجد ميكروفون متاح. يمكنك المتابعة بالكتابة.',
+
+  'mode.label': 'طريقة المحادثة',
+  'mode.voice': 'صوت',
+  'mode.text': 'كتابة',
+  'talk.openMic': 'ميكروفون مفتوح',
+  'talk.pushToTalk': 'اضغط للتحدث',
+  'talk.hold': 'اضغط مطولاً للتحدث (مسافة)',
+  'talk.release': 'أستمع... اترك الزر للإرسال',
+  'chat.label': 'الرسالة',
+  'chat.placeholder': 'اكتب رسالتك...',
+  'chat.send': 'إرسال',
+
+  'speaker.user': 'أنت',
+  'speaker.assistant': 'رِيَادَة',
+  'mic.muted': 'الميكروفون مكتوم',
+  'mic.noSignal': 'لا توجد إشارة',
+
+  'handoff.queuedTitle': 'في انتظار أحد الموظفين',
+  'handoff.queuedDetail': 'ترتيبك {position} · حوالي {minutes} دقيقة',
+  'handoff.callbackTitle': 'تم طلب معاودة الاتصال',
+  'handoff.callbackBy': 'سيتصل بك أحد الموظفين قبل {time} (بتوقيت القاهرة)',
+  'handoff.callbackSoon': 'سيتصل بك أحد الموظفين قريباً',
+  'handoff.unavailableTitle': 'لا يوجد موظف متاح',
+  'handoff.unavailableDetail': 'اطلب معاودة الاتصال أو اتصل بالخط الساخن بالأسفل',
+  'handoff.reference': 'رقم المرجع {id}',
+
+  'recording.consentTitle': 'تسجيل المكالمة؟',
+  'recording.consentBody': 'لا نسجّل المكالمات إلا بإذنك، لمراجعة جودة الخدمة. تُحذف التسجيلات بعد {days} يوماً.',
+  'recording.allow': 'السماح بالتسجيل',
+  'recording.decline': 'بدون تسجيل',
+  'recording.active': 'جارٍ التسجيل',
+  'recording.download': 'تنزيل التسجيل',
+  'recording.uploading': 'جارٍ الرفع...',
+  'recording.uploaded': 'تم الحفظ للمراجعة',
+  'recording.uploadFailed': 'تعذّر الرفع',
+
+  'footer.company': '© 2026 شركة رِيَادَة',
+  'footer.hotline': 'الخط الساخن:',
+  'footer.location': 'القاهرة، مصر',
+
+  'locale.label': 'اللغة',
+  'locale.switchTo': 'English',
+};
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en, ar };
+
+/** Looks up `key` and fills "{name}" placeholders from `params`. */
+export function translate(locale: Locale, key: MessageKey, params: Record<string, string | number> = {}): string {
+  const template = CATALOGS[locale][key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (whole, name) => (name in params ? String(params[name]) : whole));
+}
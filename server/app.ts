@@ -0,0 +1,158 @@
+import http from 'node:http';
+import { GoogleGenAI } from '@google/genai';
+import { ServerConfig, loadServerConfig } from './config';
+import { createRateLimiter } from './rateLimit';
+import { issueSessionToken } from './tokens';
+import { PayloadTooLargeError, forward, forwardStream } from './proxy';
+import { ProfileStore, UnknownProfileError, withoutTools } from './profiles';
+import { BOOKING_ROUTES, CALENDAR_ROUTES, createCalendarService, createSharedCalendar } from './calendar';
+import { isLocale } from '../i18n/locales';
+
+const MAX_BODY_BYTES = 64 * 1024;
+const RECORDINGS_ROUTE = '/api/recordings';
+/** Routes that change shared state; a browser always names the page it posts from, so no Origin means no browser. */
+const ORIGIN_REQUIRED = [...CALENDAR_ROUTES, RECORDINGS_ROUTE];
+
+function readBody(req: http.IncomingMessage, maxBytes = MAX_BODY_BYTES): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        reject(new PayloadTooLargeError());
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+function clientIp(req: http.IncomingMessage, trustProxy: boolean): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress || 'unknown';
+}
+
+/** Same-origin requests are always allowed; cross-origin ones must be on the allow-list. */
+function isOriginAllowed(origin: string | undefined, host: string | undefined, config: ServerConfig): boolean {
+  if (!origin) return true;
+  if (config.allowedOrigins.includes(origin)) return true;
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+function send(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(typeof body === 'string' ? body : JSON.stringify(body));
+}
+
+export function createServer(config: ServerConfig, profiles: ProfileStore): http.Server {
+  const ai = new GoogleGenAI({ apiKey: config.geminiApiKey });
+  const tokenLimiter = createRateLimiter({ max: config.tokenRateLimit, windowMs: 60 * 1000 });
+  const proxyLimiter = createRateLimiter({ max: config.proxyRateLimit, windowMs: 60 * 1000 });
+  const bookingLimiter = createRateLimiter({ max: config.bookingRateLimit, windowMs: 60 * 1000 });
+  const recordingLimiter = createRateLimiter({ max: config.recordingRateLimit, windowMs: 60 * 1000 });
+  const upstreams: Record<string, string> = {
+    '/api/knowledge': config.knowledgeUpstreamUrl,
+    '/api/actions': config.actionsUpstreamUrl,
+    ...(config.actionsLookupUpstreamUrl ? { '/api/actions/lookup': config.actionsLookupUpstreamUrl } : {}),
+    ...(config.handoffUpstreamUrl ? { '/api/handoff': config.handoffUpstreamUrl } : {}),
+    ...(config.recordingsUpstreamUrl ? { [RECORDINGS_ROUTE]: config.recordingsUpstreamUrl } : {}),
+    ...(config.calendarUpstreamUrl ? {
+      '/api/calendar/busy': `${config.calendarUpstreamUrl}/busy`,
+      '/api/calendar/reserve': `${config.calendarUpstreamUrl}/reserve`,
+      '/api/calendar/confirm': `${config.calendarUpstreamUrl}/confirm`,
+      '/api/calendar/release': `${config.calendarUpstreamUrl}/release`,
+    } : {}),
+  };
+  const calendar = config.calendarUpstreamUrl ? null : createCalendarService(createSharedCalendar(config.calendarIcsUrl));
+
+  return http.createServer(async (req, res) => {
+    const origin = req.headers.origin;
+    const path = (req.url || '').split('?')[0];
+
+    if (!isOriginAllowed(origin, req.headers.host, config) || (!origin && ORIGIN_REQUIRED.includes(path))) {
+      send(res, 403, { error: 'Origin not allowed.' });
+      return;
+    }
+    const cors: Record<string, string> = origin
+      ? { 'Access-Control-Allow-Origin': origin, 'Vary': 'Origin' }
+      : {};
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        ...cors,
+        'Access-Control-Allow-Methods': 'POST',
+        'Access-Control-Allow-Headers': 'Content-Type, Accept',
+        'Access-Control-Max-Age': '600',
+      });
+      res.end();
+      return;
+    }
+
+    const isCalendar = !!calendar && CALENDAR_ROUTES.includes(path);
+    if (req.method !== 'POST' || (path !== '/api/session-token' && !upstreams[path] && !isCalendar)) {
+      send(res, 404, { error: 'Not found.' }, cors);
+      return;
+    }
+
+    const limiter = path === '/api/session-token' ? tokenLimiter
+      : path === RECORDINGS_ROUTE ? recordingLimiter
+      : BOOKING_ROUTES.includes(path) ? bookingLimiter
+      : proxyLimiter;
+    const client = `${origin || '-'}|${clientIp(req, config.trustProxy)}`;
+    const limit = limiter.hit(client);
+    if (!limit.allowed) {
+      send(res, 429, { error: 'Rate limit exceeded.' }, {
+        ...cors,
+        'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)),
+      });
+      return;
+    }
+
+    try {
+      if (path === RECORDINGS_ROUTE) {
+        // Multipart WAV uploads run to tens of megabytes, so they are streamed on rather than buffered.
+        if (Number(req.headers['content-length']) > config.recordingMaxBytes) throw new PayloadTooLargeError();
+        const upstream = await forwardStream(upstreams[path], req, req.headers['content-type'] || 'application/octet-stream', config.recordingMaxBytes);
+        send(res, upstream.status, upstream.body, { ...cors, 'Content-Type': upstream.contentType });
+        return;
+      }
+      const body = await readBody(req);
+      if (path === '/api/session-token') {
+        let requested: { profile?: unknown; locale?: unknown; withoutTools?: unknown } = {};
+        try { requested = (body.length && JSON.parse(body.toString('utf8'))) || {}; } catch {}
+        const resolved = await profiles.resolve(typeof requested.profile === 'string' ? requested.profile : undefined);
+        const locale = isLocale(requested.locale) ? requested.locale : undefined;
+        const unavailable = Array.isArray(requested.withoutTools) ? requested.withoutTools.filter(t => typeof t === 'string') : [];
+        send(res, 200, await issueSessionToken(ai, config.tokenTtlMinutes, withoutTools(resolved, unavailable), locale), { ...cors, 'Cache-Control': 'no-store' });
+        return;
+      }
+      if (isCalendar) {
+        const reply = await calendar!.handle(path, body, client);
+        send(res, reply.status, reply.body, { ...cors, 'Cache-Control': 'no-store' });
+        return;
+      }
+      const upstream = await forward(upstreams[path], body, req.headers['content-type'] || 'application/json');
+      send(res, upstream.status, upstream.body, { ...cors, 'Content-Type': upstream.contentType });
+    } catch (e: any) {
+      if (e instanceof UnknownProfileError) {
+        send(res, 404, { error: e.message }, cors);
+        return;
+      }
+      if (e instanceof PayloadTooLargeError) {
+        send(res, 413, { error: e.message }, { ...cors, 'Connection': 'close' });
+        return;
+      }
+      console.error(`${path} failed:`, e);
+      send(res, 502, { error: 'Upstream request failed.' }, cors);
+    }
+  });
+}
@@ -0,0 +1,112 @@
+import { DEFAULT_SCHEDULE, ScheduleConfig } from '../config/schedule';
+import {
+  BusyInterval, CalendarSource, createBookingLedger, createIcsUrlCalendar, createMemoryCalendar, createScheduler,
+} from '../services/scheduling';
+import { isRecord } from '../utils/validation';
+
+/** Routes that change the calendar; they get their own, lower rate limit. */
+export const BOOKING_ROUTES = ['/api/calendar/reserve', '/api/calendar/confirm', '/api/calendar/release'];
+export const CALENDAR_ROUTES = ['/api/calendar/busy', ...BOOKING_ROUTES];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Widest range a busy query may cover; the booking window is 30 days. */
+const MAX_QUERY_MS = 62 * DAY_MS;
+/** An unconfirmed reservation is released after this long; logging a booking takes seconds. */
+const HOLD_TTL_MS = 10 * 60 * 1000;
+/** Unconfirmed reservations one client (origin and IP) may have at a time. */
+const MAX_HOLDS_PER_CLIENT = 3;
+
+/**
+ * The calendar every browser books through, so two customers cannot take the
+ * same slot. Bookings are held in this process on top of the ICS export, if
+ * one is configured; run a single instance, or set `CALENDAR_UPSTREAM_URL`.
+ */
+export function createSharedCalendar(icsUrl?: string): CalendarSource {
+  return icsUrl ? createBookingLedger(createIcsUrlCalendar(icsUrl)) : createMemoryCalendar();
+}
+
+function readRange(body: Buffer, maxMs: number): { start: Date; end: Date; label?: string } | null {
+  let raw: unknown;
+  try { raw = JSON.parse(body.toString('utf8')); } catch { return null; }
+  if (!isRecord(raw) || typeof raw.start !== 'string' || typeof raw.end !== 'string') return null;
+  const start = new Date(raw.start);
+  const end = new Date(raw.end);
+  const ms = end.getTime() - start.getTime();
+  if (Number.isNaN(ms) || ms <= 0 || ms > maxMs) return null;
+  return { start, end, label: typeof raw.label === 'string' ? raw.label.slice(0, 200) : undefined };
+}
+
+export interface CalendarService {
+  handle: (path: string, body: Buffer, client: string) => Promise<{ status: number; body: unknown }>;
+}
+
+interface Hold {
+  client: string;
+  interval: BusyInterval;
+  expiresAt: number;
+}
+
+/**
+ * Busy: POST { start, end } for { busy: [{ start, end }] }, without labels.
+ * Reserve: POST { start, end, label? } of an open meeting slot; 409 when it is taken,
+ * 422 when it is not a slot the schedule offers. The hold lapses unless confirmed.
+ * Confirm: POST { start, end } once the booking is logged; keeps the hold for good.
+ * Release: POST { start, end } of the caller's own unconfirmed hold.
+ */
+export function createCalendarService(
+  calendar: CalendarSource,
+  config: ScheduleConfig = DEFAULT_SCHEDULE,
+  now: () => Date = () => new Date(),
+): CalendarService {
+  const scheduler = createScheduler(config, calendar, now);
+  const meetingMs = config.meetingMinutes * 60000;
+  const holds = new Map<number, Hold>();
+
+  const expire = async () => {
+    for (const [key, hold] of holds) {
+      if (hold.expiresAt > now().getTime()) continue;
+      holds.delete(key);
+      await calendar.release!(hold.interval);
+    }
+  };
+
+  return {
+    handle: async (path, body, client) => {
+      const querying = path === '/api/calendar/busy';
+      const range = readRange(body, querying ? MAX_QUERY_MS : meetingMs);
+      if (!range) return { status: 400, body: { error: 'Expected { start, end } as ISO times.' } };
+      await expire();
+
+      if (querying) {
+        const busy = await calendar.busy(range.start, range.end);
+        return { status: 200, body: { busy: busy.map(i => ({ start: i.start.toISOString(), end: i.end.toISOString() })) } };
+      }
+      if (range.end.getTime() - range.start.getTime() !== meetingMs) {
+        return { status: 400, body: { error: `Expected one ${config.meetingMinutes}-minute meeting.` } };
+      }
+
+      const key = range.start.getTime();
+      const hold = holds.get(key);
+      if (path === '/api/calendar/confirm' || path === '/api/calendar/release') {
+        if (!hold || hold.client !== client) return { status: 404, body: { error: 'No such reservation.' } };
+        holds.delete(key);
+        if (path === '/api/calendar/release') {
+          await calendar.release!(hold.interval);
+          return { status: 200, body: { released: true } };
+        }
+        return { status: 200, body: { confirmed: true } };
+      }
+
+      if ([...holds.values()].filter(h => h.client === client).length >= MAX_HOLDS_PER_CLIENT) {
+        return { status: 429, body: { error: 'Too many unconfirmed reservations.' } };
+      }
+      const slot = await scheduler.reserve(range.start, range.label);
+      if (slot.ok === false) {
+        if (slot.reason === 'taken') return { status: 409, body: { error: 'That time is already booked.' } };
+        return { status: 422, body: { error: `Not a bookable slot (${slot.reason}).` } };
+      }
+      holds.set(key, { client, interval: { start: slot.start, end: slot.end }, expiresAt: now().getTime() + HOLD_TTL_MS });
+      return { status: 200, body: { reserved: true } };
+    },
+  };
+}
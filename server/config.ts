@@ -0,0 +1,62 @@
+import { DEFAULT_RECORDING_CONFIG, recordingUploadBytes } from '../config/recording';
+
+export interface ServerConfig {
+  port: number;
+  geminiApiKey: string;
+  /** Origins allowed to request tokens and use the proxies. Empty allows same-origin requests only. */
+  allowedOrigins: string[];
+  trustProxy: boolean;
+  knowledgeUpstreamUrl: string;
+  actionsUpstreamUrl: string;
+  /** Ticket-status lookup behind /api/actions/lookup; the route is off when unset. */
+  actionsLookupUpstreamUrl?: string;
+  /** Escalation queue behind /api/handoff; the route is off when unset. */
+  handoffUpstreamUrl?: string;
+  /** Recording store behind /api/recordings; the route is off when unset. */
+  recordingsUpstreamUrl?: string;
+  /** Busy time for /api/calendar, read server-side and re-fetched every five minutes. */
+  calendarIcsUrl?: string;
+  /** A shared calendar service that replaces the built-in /api/calendar (needed with more than one instance). */
+  calendarUpstreamUrl?: string;
+  /** Largest recording upload accepted, in bytes; by default what a recording of the maximum length needs. */
+  recordingMaxBytes: number;
+  tokenTtlMinutes: number;
+  tokenRateLimit: number;
+  proxyRateLimit: number;
+  /** Requests per minute per client to reserve, confirm or release a booking. */
+  bookingRateLimit: number;
+  /** Recording uploads per minute per client; a call uploads one. */
+  recordingRateLimit: number;
+  profilesDir: string;
+}
+
+const DEFAULT_KNOWLEDGE_URL = 'https://n8n.riyadah.com.eg/webhook/8c5879b7-c4d6-4da1-82e2-f42b51fb1dae/chat';
+const DEFAULT_ACTIONS_URL = 'https://script.google.com/macros/s/AKfycbzKruxQQX9r3Bav0wu7F1BwGvunXV1Kmu5ty44WDATTsucNvBREe7zFtqA0TlOSfqXfdg/exec';
+
+export function loadServerConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  if (!env.GEMINI_API_KEY) {
+    throw new Error('GEMINI_API_KEY must be set for the token server.');
+  }
+  return {
+    port: Number(env.SERVER_PORT || 8787),
+    geminiApiKey: env.GEMINI_API_KEY,
+    allowedOrigins: (env.ALLOWED_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean),
+    trustProxy: env.TRUST_PROXY === '1' || env.TRUST_PROXY === 'true',
+    knowledgeUpstreamUrl: env.KNOWLEDGE_UPSTREAM_URL || DEFAULT_KNOWLEDGE_URL,
+    actionsUpstreamUrl: env.ACTIONS_UPSTREAM_URL || DEFAULT_ACTIONS_URL,
+    actionsLookupUpstreamUrl: env.ACTIONS_LOOKUP_UPSTREAM_URL || undefined,
+    handoffUpstreamUrl: env.HANDOFF_UPSTREAM_URL || undefined,
+    recordingsUpstreamUrl: env.RECORDINGS_UPSTREAM_URL || undefined,
+    calendarIcsUrl: env.CALENDAR_ICS_URL || undefined,
+    calendarUpstreamUrl: env.CALENDAR_UPSTREAM_URL || undefined,
+    recordingMaxBytes: env.RECORDING_MAX_UPLOAD_MB
+      ? Number(env.RECORDING_MAX_UPLOAD_MB) * 1024 * 1024
+      : recordingUploadBytes(Number(env.RECORDING_MAX_MINUTES) || DEFAULT_RECORDING_CONFIG.maxMinutes),
+    tokenTtlMinutes: Number(env.TOKEN_TTL_MINUTES || 30),
+    tokenRateLimit: Number(env.TOKEN_RATE_LIMIT || 10),
+    proxyRateLimit: Number(env.PROXY_RATE_LIMIT || 120),
+    bookingRateLimit: Number(env.BOOKING_RATE_LIMIT || 10),
+    recordingRateLimit: Number(env.RECORDING_RATE_LIMIT || 2),
+    profilesDir: env.PROFILES_DIR || 'profiles',
+  };
+}
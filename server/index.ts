@@ -0,0 +1,19 @@
+import { loadServerConfig } from './config';
+import { createServer } from './app';
+import { createProfileStore } from './profiles';
+
+// Node 20.12+; the file is optional when the variables come from the environment.
+try { process.loadEnvFile('.env.local'); } catch {}
+
+const config = loadServerConfig();
+const profiles = createProfileStore(config.profilesDir);
+
+profiles.validateAll().then(ids => {
+  console.log(`Loaded assistant profiles: ${ids.join(', ')}`);
+  createServer(config, profiles).listen(config.port, () => {
+    console.log(`Token server listening on :${config.port}`);
+  });
+}).catch(e => {
+  console.error(e.message);
+  process.exit(1);
+});
@@ -0,0 +1,109 @@
+import { readFile, readdir } from 'node:fs/promises';
+import path from 'node:path';
+import {
+  AssistantProfile,
+  DEFAULT_PROFILE_ID,
+  PROFILE_BASE_PATTERN,
+  PROFILE_ID_PATTERN,
+  ProfileValidationError,
+  extendProfile,
+  isWithinBusinessHours,
+  validateProfile,
+} from '../config/profiles';
+import { toolRegistry } from '../tools';
+import { isRecord } from '../utils/validation';
+
+export class UnknownProfileError extends Error {}
+
+export interface ResolvedProfile {
+  profile: AssistantProfile;
+  /** Notes added to the system instruction, e.g. that the office is closed. */
+  notes: string[];
+}
+
+/** Tools whose absence needs no stand-in: nothing asks the model to use them unless they are available. */
+const OPTIONAL_TOOLS = ['set_recording_consent'];
+
+/**
+ * Leaves out tools the browser has no backend for, e.g. a build without a
+ * handoff endpoint, and tells the model what to do instead. It can only narrow.
+ */
+export function withoutTools({ profile, notes }: ResolvedProfile, tools: string[]): ResolvedProfile {
+  const dropped = profile.enabledTools.filter(t => tools.includes(t));
+  if (!dropped.length) return { profile, notes };
+  const replaced = dropped.filter(t => !OPTIONAL_TOOLS.includes(t));
+  return {
+    profile: { ...profile, enabledTools: profile.enabledTools.filter(t => !dropped.includes(t)) },
+    notes: replaced.length
+      ? [...notes, `${replaced.join(', ')} cannot be used in this call. Where the protocol says to use it, give the customer the hotline (+2) 0155-155-3285 instead.`]
+      : notes,
+  };
+}
+
+/** A base may extend another base; deeper chains are a mistake. */
+const MAX_EXTENDS_DEPTH = 3;
+
+/**
+ * Profiles are JSON files read on every request, so editing one changes the
+ * next call without a release. A broken edit fails that profile, not the server.
+ * Shared rules live in base files such as `_base.json`, named by `extends`.
+ */
+export function createProfileStore(dir: string) {
+  const readBase = async (id: string, name: unknown, depth: number): Promise<Record<string, unknown>> => {
+    if (typeof name !== 'string' || !PROFILE_BASE_PATTERN.test(name)) {
+      throw new ProfileValidationError(id, ['extends must name a base file such as "_base"']);
+    }
+    if (depth >= MAX_EXTENDS_DEPTH) throw new ProfileValidationError(id, ['extends chain is too deep']);
+    let text: string;
+    try {
+      text = await readFile(path.join(dir, `${name}.json`), 'utf8');
+    } catch {
+      throw new ProfileValidationError(id, [`extends missing base "${name}"`]);
+    }
+    const base = await withBase(id, JSON.parse(text), depth + 1);
+    if (!isRecord(base)) throw new ProfileValidationError(id, [`base "${name}" is not a JSON object`]);
+    return base;
+  };
+
+  const withBase = async (id: string, raw: unknown, depth = 0): Promise<unknown> =>
+    isRecord(raw) && raw.extends !== undefined ? extendProfile(await readBase(id, raw.extends, depth), raw) : raw;
+
+  const load = async (id: string): Promise<AssistantProfile> => {
+    if (!PROFILE_ID_PATTERN.test(id)) throw new UnknownProfileError(`Unknown profile "${id}".`);
+    let text: string;
+    try {
+      text = await readFile(path.join(dir, `${id}.json`), 'utf8');
+    } catch {
+      throw new UnknownProfileError(`Unknown profile "${id}".`);
+    }
+    const profile = validateProfile(await withBase(id, JSON.parse(text)), toolRegistry.names(), id);
+    if (profile.id !== id) throw new Error(`Profile file ${id}.json declares id "${profile.id}".`);
+    return profile;
+  };
+
+  return {
+    load,
+    /** Applies business hours: swaps in the after-hours profile or adds a closed-office note. */
+    resolve: async (id = DEFAULT_PROFILE_ID, now = new Date()): Promise<ResolvedProfile> => {
+      const profile = await load(id);
+      const hours = profile.businessHours;
+      if (!hours || isWithinBusinessHours(hours, now)) return { profile, notes: [] };
+      if (hours.afterHoursProfile) return { profile: await load(hours.afterHoursProfile), notes: [] };
+      return { profile, notes: hours.afterHoursNote ? [hours.afterHoursNote] : [] };
+    },
+    /** Loads every profile once so a bad file is reported at startup. */
+    validateAll: async (): Promise<string[]> => {
+      const ids = (await readdir(dir)).filter(f => f.endsWith('.json') && !f.startsWith('_')).map(f => f.slice(0, -5));
+      for (const id of ids) {
+        const profile = await load(id);
+        const fallback = profile.businessHours?.afterHoursProfile;
+        if (fallback && !ids.includes(fallback)) {
+          throw new Error(`Profile "${id}" names missing after-hours profile "${fallback}".`);
+        }
+      }
+      return ids;
+    },
+  };
+}
+
+export type ProfileStore = ReturnType<typeof createProfileStore>;
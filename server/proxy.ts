@@ -0,0 +1,69 @@
+import { Readable, Transform, pipeline } from 'node:stream';
+
+export interface ProxiedResponse {
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+export class PayloadTooLargeError extends Error {
+  constructor() {
+    super('Request body too large.');
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+async function toProxied(response: Response): Promise<ProxiedResponse> {
+  return {
+    status: response.status,
+    contentType: response.headers.get('content-type') || 'application/json',
+    body: await response.text(),
+  };
+}
+
+/** Forwards a request body to an upstream URL and returns its reply unchanged; binary bodies pass through as is. */
+export async function forward(url: string, body: string | Buffer, contentType: string): Promise<ProxiedResponse> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': contentType, 'Accept': 'application/json' },
+    body,
+    redirect: 'follow',
+  });
+  return toProxied(response);
+}
+
+/**
+ * Like `forward`, but passes the body on as it arrives instead of holding it in
+ * memory, for uploads such as recordings. Fails with `PayloadTooLargeError` once
+ * more than `maxBytes` have come in.
+ */
+export async function forwardStream(
+  url: string,
+  body: Readable,
+  contentType: string,
+  maxBytes: number,
+): Promise<ProxiedResponse> {
+  let size = 0;
+  let tooLarge = false;
+  const limited = new Transform({
+    transform(chunk: Buffer, _encoding, done) {
+      size += chunk.length;
+      tooLarge = size > maxBytes;
+      done(tooLarge ? new PayloadTooLargeError() : null, chunk);
+    },
+  });
+  pipeline(body, limited, () => {});
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': contentType, 'Accept': 'application/json' },
+      body: Readable.toWeb(limited) as ReadableStream,
+      // Required by Node's fetch for a streamed body; absent from the DOM typings.
+      duplex: 'half',
+    } as RequestInit);
+    return await toProxied(response);
+  } catch (e) {
+    throw tooLarge ? new PayloadTooLargeError() : e;
+  }
+}
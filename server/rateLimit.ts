@@ -0,0 +1,29 @@
+
+export interface RateLimiter {
+  /** Counts a request for `key`; returns how long to wait if the window is full. */
+  hit: (key: string, now?: number) => { allowed: boolean; retryAfterMs: number };
+}
+
+/** Fixed-window counter per key, e.g. `${origin}|${ip}`. */
+export function createRateLimiter(options: { max: number; windowMs: number }): RateLimiter {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return {
+    hit: (key, now = Date.now()) => {
+      let win = windows.get(key);
+      if (!win || now - win.start >= options.windowMs) {
+        win = { start: now, count: 0 };
+        windows.set(key, win);
+        // Drop expired windows now and then so the map cannot grow without bound.
+        if (windows.size > 10000) {
+          for (const [k, w] of windows) if (now - w.start >= options.windowMs) windows.delete(k);
+        }
+      }
+      win.count += 1;
+      if (win.count > options.max) {
+        return { allowed: false, retryAfterMs: options.windowMs - (now - win.start) };
+      }
+      return { allowed: true, retryAfterMs: 0 };
+    },
+  };
+}
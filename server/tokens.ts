@@ -0,0 +1,43 @@
+import { GoogleGenAI } from '@google/genai';
+import { buildLiveConfig } from '../config/assistant';
+import { PublicProfile, toPublicProfile } from '../config/profiles';
+import { Locale } from '../i18n/locales';
+import { ResolvedProfile } from './profiles';
+
+export interface IssuedToken {
+  token: string;
+  expiresAt: string;
+  profile: PublicProfile;
+}
+
+/**
+ * Issues a single-use ephemeral token for the Live API. The model, persona
+ * and tools of the profile are locked into the token, so a caller cannot
+ * repurpose it. Only the fields `buildLiveConfig` sets are locked: left
+ * unset, `lockAdditionalFields` would lock every field and drop the
+ * resumption handle the browser sends when it reconnects.
+ */
+export async function issueSessionToken(
+  ai: GoogleGenAI,
+  ttlMinutes: number,
+  { profile, notes }: ResolvedProfile,
+  locale?: Locale,
+): Promise<IssuedToken> {
+  const now = Date.now();
+  const expiresAt = new Date(now + ttlMinutes * 60 * 1000).toISOString();
+  const token = await ai.authTokens.create({
+    config: {
+      uses: 1,
+      expireTime: expiresAt,
+      newSessionExpireTime: new Date(now + 60 * 1000).toISOString(),
+      liveConnectConstraints: {
+        model: profile.model,
+        config: buildLiveConfig(profile, notes, locale),
+      },
+      lockAdditionalFields: [],
+      httpOptions: { apiVersion: 'v1alpha' },
+    },
+  });
+  if (!token.name) throw new Error('Token service returned no token.');
+  return { token: token.name, expiresAt, profile: toPublicProfile(profile, locale) };
+}
@@ -0,0 +1,171 @@
+import { OutboxEntry, OutboxStore } from './outboxStore';
+
+/**
+ * `no-cors` posts a plain string the way Apps Script expects but the response
+ * is opaque, so success can never be confirmed. `cors` reads the real reply.
+ */
+export type DeliveryMode = 'no-cors' | 'cors';
+
+/**
+ * confirmed: the endpoint acknowledged the write.
+ * sent: the request left the browser but the reply is unreadable (no-cors).
+ * queued: delivery failed and the action waits in the outbox for a retry.
+ */
+export type DeliveryStatus = 'confirmed' | 'sent' | 'queued';
+
+export interface DeliveryResult {
+  status: DeliveryStatus;
+  idempotencyKey: string;
+}
+
+export class ActionRejectedError extends Error {}
+
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+
+export function backoffDelay(attempts: number): number {
+  const delay = Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** attempts);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+export function createIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID();
+  return `act_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 10)}`;
+}
+
+async function send(url: string, mode: DeliveryMode, contentType: string, entry: OutboxEntry): Promise<DeliveryStatus> {
+  const body = JSON.stringify({ ...entry.body, idempotencyKey: entry.id });
+
+  if (mode === 'no-cors') {
+    // Only a network failure is observable here; it rejects and the entry stays queued.
+    await fetch(url, { method: 'POST', mode: 'no-cors', body });
+    return 'sent';
+  }
+
+  const response = await fetch(url, {
+    method: 'POST',
+    mode: 'cors',
+    headers: { 'Content-Type': contentType },
+    body,
+  });
+  const reply = await response.json().catch(() => null);
+
+  if (response.ok && reply?.status !== 'error' && reply?.ok !== false) return 'confirmed';
+  const reason = reply?.error || reply?.message || `HTTP ${response.status}`;
+  // Client errors will not succeed on retry; timeouts and rate limits might.
+  if (response.status >= 400 && response.status < 500 && response.status !== 408 && response.status !== 429) {
+    throw new ActionRejectedError(reason);
+  }
+  if (response.ok) throw new ActionRejectedError(reason);
+  throw new Error(reason);
+}
+
+export interface ActionDelivery {
+  deliver: (body: Record<string, unknown>) => Promise<DeliveryResult>;
+  flush: () => Promise<void>;
+  /** Retries queued actions on a timer and whenever the browser comes back online. */
+  start: () => () => void;
+}
+
+export function createActionDelivery(options: {
+  url: string;
+  mode: DeliveryMode;
+  store: OutboxStore;
+  /** Defaults to text/plain, which keeps the POST a simple request so Apps Script needs no preflight. */
+  contentType?: string;
+}): ActionDelivery {
+  const { url, mode, store } = options;
+  const contentType = options.contentType || 'text/plain;charset=utf-8';
+  const inFlight = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+
+  // The send outcome is already settled when these run, so a storage failure is logged rather than
+  // reported as a failed delivery. A leftover entry is resent later under the same idempotency key.
+  const forget = (id: string) =>
+    store.remove(id).catch(e => console.error('Outbox: could not clear a settled action:', id, e));
+  const persist = (entry: OutboxEntry) =>
+    store.put(entry).catch(e => console.error('Outbox write failed:', entry.id, e));
+
+  const attempt = async (entry: OutboxEntry): Promise<DeliveryStatus> => {
+    inFlight.add(entry.id);
+    try {
+      let status: DeliveryStatus;
+      try {
+        status = await send(url, mode, contentType, entry);
+      } catch (e: any) {
+        if (e instanceof ActionRejectedError) {
+          await forget(entry.id);
+          throw e;
+        }
+        const attempts = entry.attempts + 1;
+        await persist({
+          ...entry,
+          attempts,
+          nextAttemptAt: Date.now() + backoffDelay(attempts),
+          lastError: e?.message || String(e),
+        });
+        schedule();
+        return 'queued';
+      }
+      await forget(entry.id);
+      return status;
+    } finally {
+      inFlight.delete(entry.id);
+    }
+  };
+
+  const flush = async () => {
+    const due = (await store.all()).filter(e => e.nextAttemptAt <= Date.now() && !inFlight.has(e.id));
+    for (const entry of due) {
+      if (typeof navigator !== 'undefined' && navigator.onLine === false) break;
+      try {
+        await attempt(entry);
+      } catch (e) {
+        console.error('Outbox: action rejected and dropped:', entry.id, e);
+      }
+    }
+  };
+
+  const retry = () => {
+    flush().catch(e => console.error('Outbox: flush failed:', e)).finally(schedule);
+  };
+
+  const schedule = async () => {
+    if (!running) return;
+    if (timer) clearTimeout(timer);
+    timer = null;
+    const pending = await store.all().catch(() => []);
+    if (!running || pending.length === 0) return;
+    const next = Math.min(...pending.map(e => e.nextAttemptAt));
+    timer = setTimeout(retry, Math.max(0, next - Date.now()));
+  };
+
+  return {
+    deliver: async body => {
+      const entry: OutboxEntry = {
+        id: createIdempotencyKey(),
+        body,
+        attempts: 0,
+        createdAt: Date.now(),
+        nextAttemptAt: Date.now() + backoffDelay(0),
+      };
+      // Persist before sending so a closed tab cannot lose the action.
+      await persist(entry);
+      const status = await attempt(entry);
+      return { status, idempotencyKey: entry.id };
+    },
+    flush,
+    start: () => {
+      running = true;
+      window.addEventListener('online', retry);
+      retry();
+      return () => {
+        running = false;
+        window.removeEventListener('online', retry);
+        if (timer) clearTimeout(timer);
+        timer = null;
+      };
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import { createMockActionAdapter, createMockAgentQueue, createMockKnowledgeAdapter, createMockRecordingStore } from './mockBackend';
+import { createN8nKnowledgeAdapter } from './n8nKnowledge';
+import { createRestActionAdapter, createRestHandoffAdapter, createRestKnowledgeAdapter, createRestRecordingAdapter } from './restBackend';
+import { createSheetsActionAdapter } from './sheetsActions';
+import { ActionLogAdapter, BackendConfig, HandoffAdapter, KnowledgeAdapter, RecordingAdapter } from './types';
+
+export * from './types';
+export { createMockActionAdapter, createMockAgentQueue, createMockKnowledgeAdapter, createMockRecordingStore } from './mockBackend';
+
+function requireUrl(url: string | undefined, setting: string): string {
+  if (!url) throw new Error(`${setting} must be set for the selected backend adapter.`);
+  return url;
+}
+
+export function createKnowledgeAdapter(config: BackendConfig): KnowledgeAdapter {
+  switch (config.knowledgeAdapter) {
+    case 'mock':
+      return createMockKnowledgeAdapter();
+    case 'rest':
+      return createRestKnowledgeAdapter(requireUrl(config.knowledgeUrl, 'KNOWLEDGE_URL'));
+    case 'n8n':
+      return createN8nKnowledgeAdapter(requireUrl(config.knowledgeUrl, 'KNOWLEDGE_URL'));
+    default:
+      throw new Error(`Unknown knowledge adapter "${config.knowledgeAdapter}".`);
+  }
+}
+
+export function createActionLogAdapter(config: BackendConfig): ActionLogAdapter {
+  switch (config.actionsAdapter) {
+    case 'mock':
+      return createMockActionAdapter();
+    case 'rest':
+      return createRestActionAdapter(requireUrl(config.actionsUrl, 'ACTIONS_URL'), config.actionsLookupUrl);
+    case 'sheets':
+      return createSheetsActionAdapter(requireUrl(config.actionsUrl, 'ACTIONS_URL'), config.actionsEndpointMode, config.actionsLookupUrl);
+    default:
+      throw new Error(`Unknown actions adapter "${config.actionsAdapter}".`);
+  }
+}
+
+export function createHandoffAdapter(config: BackendConfig): HandoffAdapter {
+  switch (config.handoffAdapter) {
+    case 'mock':
+      return createMockAgentQueue();
+    case 'rest':
+      return createRestHandoffAdapter(requireUrl(config.handoffUrl, 'HANDOFF_URL'));
+    default:
+      throw new Error(`Unknown handoff adapter "${config.handoffAdapter}".`);
+  }
+}
+
+export function createRecordingAdapter(config: BackendConfig): RecordingAdapter {
+  switch (config.recordingsAdapter) {
+    case 'mock':
+      return createMockRecordingStore();
+    case 'rest':
+      return createRestRecordingAdapter(requireUrl(config.recordingsUrl, 'RECORDINGS_URL'));
+    default:
+      throw new Error(`Unknown recordings adapter "${config.recordingsAdapter}".`);
+  }
+}
+
+/** Reads the KNOWLEDGE_*, ACTIONS_*, HANDOFF_* and RECORDINGS_* variables; adapters default to n8n, sheets (no-cors) and rest. */
+export function backendConfigFromEnv(): BackendConfig {
+  return {
+    knowledgeAdapter: (process.env.KNOWLEDGE_ADAPTER || 'n8n') as BackendConfig['knowledgeAdapter'],
+    knowledgeUrl: process.env.KNOWLEDGE_URL,
+    knowledgeTimeoutMs: Number(process.env.KNOWLEDGE_TIMEOUT_MS) || undefined,
+    knowledgeCacheTtlMs: Number(process.env.KNOWLEDGE_CACHE_TTL_MS) || undefined,
+    actionsAdapter: (process.env.ACTIONS_ADAPTER || 'sheets') as BackendConfig['actionsAdapter'],
+    actionsUrl: process.env.ACTIONS_URL,
+    actionsEndpointMode: process.env.ACTIONS_ENDPOINT_MODE === 'cors' ? 'cors' : 'no-cors',
+    actionsLookupUrl: process.env.ACTIONS_LOOKUP_URL || undefined,
+    handoffAdapter: (process.env.HANDOFF_ADAPTER || 'rest') as BackendConfig['handoffAdapter'],
+    handoffUrl: process.env.HANDOFF_URL,
+    recordingsAdapter: (process.env.RECORDINGS_ADAPTER || 'rest') as BackendConfig['recordingsAdapter'],
+    recordingsUrl: process.env.RECORDINGS_URL,
+  };
+}
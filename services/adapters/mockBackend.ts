@@ -0,0 +1,186 @@
+import { createIdempotencyKey } from '../actionDelivery';
+import { CallRecording, CallSummary, HandoffTicket } from '../../types';
+import {
+  ActionLogAdapter,
+  ActionRecord,
+  ActionStatus,
+  HandoffAdapter,
+  HandoffRequest,
+  KnowledgeAdapter,
+  RecordingAdapter,
+  SupportAction,
+} from './types';
+
+export interface LoggedAction extends SupportAction {
+  idempotencyKey: string;
+  loggedAt: string;
+  status: ActionStatus;
+  updatedAt: string;
+  lastUpdate?: string;
+}
+
+const DEFAULT_ANSWERS: Record<string, string> = {
+  services: 'Riyadah is a technology integrator offering network infrastructure, data centers, security systems and managed IT services.',
+  contact: 'Riyadah can be reached on the hotline (+2) 0155-155-3285, Cairo, Egypt.',
+};
+
+/** Answers from a keyword map so the app runs with no network at all. */
+export function createMockKnowledgeAdapter(answers: Record<string, string> = DEFAULT_ANSWERS): KnowledgeAdapter {
+  return {
+    name: 'mock',
+    query: async query => {
+      const q = query.toLowerCase();
+      const hit = Object.keys(answers).find(key => q.includes(key.toLowerCase()));
+      return { output: hit ? answers[hit] : 'No information found for that question.', cacheScope: 'shared' };
+    },
+  };
+}
+
+/**
+ * An in-memory action store: keeps what was logged, answers lookups the way a
+ * real store must (reference and contact both match), and lets tests or demos
+ * move an action along with `updateAction`.
+ */
+export function createMockActionAdapter(
+  log: LoggedAction[] = [],
+  summaries: CallSummary[] = [],
+): ActionLogAdapter & {
+  log: LoggedAction[];
+  summaries: CallSummary[];
+  updateAction: (reference: string, status: ActionStatus, note?: string) => boolean;
+} {
+  return {
+    name: 'mock',
+    log,
+    summaries,
+    logAction: async action => {
+      const idempotencyKey = createIdempotencyKey();
+      const loggedAt = new Date().toISOString();
+      log.push({ ...action, idempotencyKey, loggedAt, status: 'received', updatedAt: loggedAt });
+      return { status: 'confirmed', idempotencyKey };
+    },
+    findAction: async ({ reference, phone, email }) => {
+      const hit = log.find(a => a.reference === reference && ((phone && a.phone === phone) || (email && a.email === email)));
+      if (!hit) return null;
+      const record: ActionRecord = {
+        reference: hit.reference,
+        messageType: hit.messageType,
+        topic: hit.topic,
+        status: hit.status,
+        loggedAt: hit.loggedAt,
+        updatedAt: hit.updatedAt,
+        lastUpdate: hit.lastUpdate,
+      };
+      return record;
+    },
+    updateAction: (reference, status, note) => {
+      const hit = log.find(a => a.reference === reference);
+      if (!hit) return false;
+      hit.status = status;
+      hit.updatedAt = new Date().toISOString();
+      if (note) hit.lastUpdate = note;
+      return true;
+    },
+    logCallSummary: async summary => {
+      summaries.push(summary);
+      return { status: 'confirmed', idempotencyKey: createIdempotencyKey() };
+    },
+  };
+}
+
+export interface MockAgentQueueOptions {
+  /** Agents taking calls at once; 0 means nobody is on shift. */
+  agents?: number;
+  /** Average minutes an agent spends per customer. */
+  handleMinutes?: number;
+  /** Waits longer than this become a scheduled callback instead. */
+  maxWaitMinutes?: number;
+  now?: () => Date;
+}
+
+export interface QueuedHandoff {
+  request: HandoffRequest;
+  ticket: HandoffTicket;
+}
+
+/**
+ * A local stand-in for the live-agent queue: waits grow with the queue length,
+ * long waits turn into callbacks, and `serveNext` plays an agent taking a call.
+ */
+export function createMockAgentQueue(
+  options: MockAgentQueueOptions = {},
+): HandoffAdapter & { queue: QueuedHandoff[]; callbacks: QueuedHandoff[]; serveNext: () => QueuedHandoff | undefined } {
+  const { agents = 2, handleMinutes = 6, maxWaitMinutes = 15, now = () => new Date() } = options;
+  const queue: QueuedHandoff[] = [];
+  const callbacks: QueuedHandoff[] = [];
+  let nextId = 1;
+
+  const waitFor = (position: number) => Math.ceil(position / agents) * handleMinutes;
+
+  return {
+    name: 'mock',
+    queue,
+    callbacks,
+    requestAgent: async request => {
+      const id = `HO-${String(nextId++).padStart(4, '0')}`;
+      const position = queue.length + 1;
+      const wait = agents > 0 ? waitFor(position) : Infinity;
+
+      if (request.preference === 'callback' || wait > maxWaitMinutes) {
+        if (!request.contact.phone) return { id, status: 'unavailable' };
+        const byMinutes = agents > 0 ? waitFor(callbacks.length + 1) + maxWaitMinutes : 24 * 60;
+        const ticket: HandoffTicket = {
+          id,
+          status: 'callback_scheduled',
+          callbackBy: new Date(now().getTime() + byMinutes * 60000).toISOString(),
+        };
+        callbacks.push({ request, ticket });
+        return ticket;
+      }
+
+      const ticket: HandoffTicket = { id, status: 'queued', position, estimatedWaitMinutes: wait };
+      queue.push({ request, ticket });
+      return ticket;
+    },
+    serveNext: () => {
+      const served = queue.shift();
+      queue.forEach((entry, i) => {
+        entry.ticket.position = i + 1;
+        entry.ticket.estimatedWaitMinutes = waitFor(i + 1);
+      });
+      return served;
+    },
+  };
+}
+
+export interface StoredRecording {
+  id: string;
+  recording: CallRecording;
+}
+
+/** Keeps uploads in memory and, like a real store must, deletes each one once its `expiresAt` has passed. */
+export function createMockRecordingStore(
+  now: () => Date = () => new Date(),
+): RecordingAdapter & { recordings: StoredRecording[]; purgeExpired: () => number } {
+  const recordings: StoredRecording[] = [];
+  let nextId = 1;
+
+  const purgeExpired = () => {
+    const before = recordings.length;
+    const keep = recordings.filter(r => Date.parse(r.recording.expiresAt) > now().getTime());
+    recordings.splice(0, recordings.length, ...keep);
+    return before - keep.length;
+  };
+
+  return {
+    name: 'mock',
+    recordings,
+    purgeExpired,
+    uploadRecording: async recording => {
+      purgeExpired();
+      const id = `REC-${String(nextId++).padStart(4, '0')}`;
+      recordings.push({ id, recording });
+      return { id };
+    },
+  };
+}
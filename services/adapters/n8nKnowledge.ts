@@ -0,0 +1,31 @@
+import { KnowledgeAdapter } from './types';
+
+export function createN8nKnowledgeAdapter(webhookUrl: string): KnowledgeAdapter {
+  return {
+    name: 'n8n',
+    query: async (query, sessionId, signal) => {
+      const response = await fetch(webhookUrl, {
+        method: 'POST',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+        },
+        body: JSON.stringify({
+          query,
+          chatInput: query,
+          message: query,
+          sessionId,
+          action: 'chat',
+          timestamp: new Date().toISOString()
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Knowledge base error: ${response.status}`);
+      }
+
+      return await response.json();
+    },
+  };
+}
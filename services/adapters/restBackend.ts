@@ -0,0 +1,142 @@
+import { createActionDelivery } from '../actionDelivery';
+import { createOutboxStore } from '../outboxStore';
+import { HandoffStatus, HandoffTicket } from '../../types';
+import { ActionLogAdapter, ActionRecord, ActionStatus, HandoffAdapter, KnowledgeAdapter, RecordingAdapter } from './types';
+import { recordingFileName } from '../recording';
+import { isRecord } from '../../utils/validation';
+
+/**
+ * Generic JSON endpoints, e.g. a CRM bridge. Knowledge: POST { query, sessionId }
+ * and any JSON back, with "cacheScope": "shared" on answers other sessions may reuse. Actions: POST the action as JSON; a 2xx reply confirms it.
+ * Lookup: POST the `ActionLookup`; the reply is an `ActionRecord` or { found: false }.
+ * Handoff: POST the `HandoffRequest`; the reply is a `HandoffTicket`.
+ * Recordings: POST multipart form data, `metadata` (JSON) and `audio` (WAV); the reply is { id }.
+ */
+export function createRestKnowledgeAdapter(url: string): KnowledgeAdapter {
+  return {
+    name: 'rest',
+    query: async (query, sessionId, signal) => {
+      const response = await fetch(url, {
+        method: 'POST',
+        signal,
+        headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+        body: JSON.stringify({ query, sessionId }),
+      });
+      if (!response.ok) {
+        throw new Error(`Knowledge base error: ${response.status}`);
+      }
+      return await response.json();
+    },
+  };
+}
+
+const ACTION_STATUSES: ActionStatus[] = ['received', 'in_progress', 'waiting_on_customer', 'resolved', 'closed'];
+const MESSAGE_TYPES: ActionRecord['messageType'][] = ['Booking', 'Support Ticket', 'Sales Query'];
+
+const isOneOf = <T>(values: T[], value: unknown): value is T => values.some(v => v === value);
+
+function toActionRecord(raw: unknown): ActionRecord | null {
+  if (isRecord(raw) && raw.found === false) return null;
+  if (
+    !isRecord(raw)
+    || typeof raw.reference !== 'string'
+    || !isOneOf(ACTION_STATUSES, raw.status)
+    || !isOneOf(MESSAGE_TYPES, raw.messageType)
+  ) {
+    throw new Error('Lookup endpoint returned an unrecognised reply.');
+  }
+  const text = (v: unknown) => (typeof v === 'string' ? v : '');
+  return {
+    reference: raw.reference,
+    messageType: raw.messageType,
+    topic: text(raw.topic),
+    status: raw.status,
+    loggedAt: text(raw.loggedAt),
+    updatedAt: text(raw.updatedAt) || text(raw.loggedAt),
+    lastUpdate: text(raw.lastUpdate) || undefined,
+  };
+}
+
+/** Ticket-status lookups against a JSON endpoint; the Sheets adapter uses it too. */
+export function createRestActionLookup(lookupUrl: string): NonNullable<ActionLogAdapter['findAction']> {
+  return async lookup => {
+    const response = await fetch(lookupUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+      body: JSON.stringify(lookup),
+    });
+    if (!response.ok) {
+      throw new Error(`Lookup endpoint error: ${response.status}`);
+    }
+    return toActionRecord(await response.json());
+  };
+}
+
+export function createRestActionAdapter(url: string, lookupUrl?: string): ActionLogAdapter {
+  const delivery = createActionDelivery({
+    url,
+    mode: 'cors',
+    contentType: 'application/json',
+    store: createOutboxStore('rest'),
+  });
+  return {
+    name: 'rest',
+    logAction: action => delivery.deliver({ ...action, loggedAt: new Date().toISOString() }),
+    logCallSummary: summary => delivery.deliver({ messageType: 'Call Summary', summary }),
+    findAction: lookupUrl ? createRestActionLookup(lookupUrl) : undefined,
+    start: delivery.start,
+  };
+}
+
+const HANDOFF_STATUSES: HandoffStatus[] = ['queued', 'callback_scheduled', 'unavailable'];
+
+function toTicket(raw: unknown): HandoffTicket {
+  if (!isRecord(raw) || !isOneOf(HANDOFF_STATUSES, raw.status)) {
+    throw new Error('Escalation endpoint returned an unrecognised reply.');
+  }
+  const number = (v: unknown) => (typeof v === 'number' && isFinite(v) ? v : undefined);
+  return {
+    id: String(raw.id ?? ''),
+    status: raw.status,
+    position: number(raw.position),
+    estimatedWaitMinutes: number(raw.estimatedWaitMinutes),
+    callbackBy: typeof raw.callbackBy === 'string' ? raw.callbackBy : undefined,
+  };
+}
+
+// Not sent through the outbox: a queue place is only worth having while the customer is still there.
+export function createRestHandoffAdapter(url: string): HandoffAdapter {
+  return {
+    name: 'rest',
+    requestAgent: async request => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      if (!response.ok) {
+        throw new Error(`Escalation endpoint error: ${response.status}`);
+      }
+      return toTicket(await response.json());
+    },
+  };
+}
+
+// Not sent through the outbox either: a recording is megabytes, too big to park in IndexedDB per retry.
+export function createRestRecordingAdapter(url: string): RecordingAdapter {
+  return {
+    name: 'rest',
+    uploadRecording: async recording => {
+      const { audio, ...metadata } = recording;
+      const form = new FormData();
+      form.append('metadata', JSON.stringify(metadata));
+      form.append('audio', audio, recordingFileName(recording));
+      const response = await fetch(url, { method: 'POST', headers: { 'Accept': 'application/json' }, body: form });
+      if (!response.ok) {
+        throw new Error(`Recordings endpoint error: ${response.status}`);
+      }
+      const reply = await response.json().catch(() => null);
+      return { id: String(reply?.id ?? '') };
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import { DeliveryMode, createActionDelivery } from '../actionDelivery';
+import { createOutboxStore } from '../outboxStore';
+import { createRestActionLookup } from './restBackend';
+import { ActionLogAdapter } from './types';
+
+/**
+ * Logs to the Apps Script behind the sheet. The script cannot be queried, so
+ * ticket status needs a separate lookup endpoint with the REST contract
+ * (`lookupUrl`); without one the adapter has no `findAction`.
+ */
+export function createSheetsActionAdapter(scriptUrl: string, mode: DeliveryMode = 'no-cors', lookupUrl?: string): ActionLogAdapter {
+  const delivery = createActionDelivery({ url: scriptUrl, mode, store: createOutboxStore('sheets') });
+  return {
+    name: 'sheets',
+    logAction: data => {
+      // Exact mapping to match your Google Apps Script:
+      // data.type, data.title, data.details
+      const payload = {
+        type: data.messageType,
+        title: data.actionDone,
+        details: {
+          client: data.clientName,
+          phone: data.phone,
+          email: data.email,
+          topic: data.topic,
+          reference: data.reference,
+          timestamp: new Date().toLocaleString('en-GB', { timeZone: 'Africa/Cairo' })
+        }
+      };
+      return delivery.deliver(payload);
+    },
+    logCallSummary: summary => delivery.deliver({
+      type: 'Call Summary',
+      title: summary.endReason,
+      details: {
+        client: summary.contact.name || '',
+        phone: summary.contact.phone || '',
+        email: summary.contact.email || '',
+        topic: summary.recap,
+        timestamp: new Date(summary.endedAt).toLocaleString('en-GB', { timeZone: 'Africa/Cairo' }),
+        summary: JSON.stringify(summary),
+      }
+    }),
+    findAction: lookupUrl ? createRestActionLookup(lookupUrl) : undefined,
+    start: delivery.start,
+  };
+}
@@ -0,0 +1,103 @@
+import { DeliveryResult } from '../actionDelivery';
+import { CallRecording, CallSummary, CustomerContact, HandoffPreference, HandoffTicket, MessageLog } from '../../types';
+
+export interface SupportAction {
+  messageType: 'Booking' | 'Support Ticket' | 'Sales Query';
+  actionDone: 'Appointment Scheduled' | 'Support Ticket Logged' | 'Sales info Delivered';
+  clientName: string;
+  phone: string;
+  email: string;
+  topic: string;
+  /** Nine-digit code the customer quotes later; see `utils/referenceCode`. */
+  reference: string;
+}
+
+/** What the tools get back: how far delivery got, and the code to read to the customer. */
+export interface ActionReceipt extends DeliveryResult {
+  reference: string;
+}
+
+export type ActionStatus = 'received' | 'in_progress' | 'waiting_on_customer' | 'resolved' | 'closed';
+
+/** A logged action as the store reports it back. */
+export interface ActionRecord {
+  reference: string;
+  messageType: SupportAction['messageType'];
+  topic: string;
+  status: ActionStatus;
+  loggedAt: string;
+  updatedAt: string;
+  /** The latest note from whoever is handling it. */
+  lastUpdate?: string;
+}
+
+/** A reference plus the phone or email the action was logged with; both must match. */
+export interface ActionLookup {
+  reference: string;
+  phone?: string;
+  email?: string;
+}
+
+export interface KnowledgeAdapter {
+  name: string;
+  /** Returns the endpoint's raw reply; `knowledgeClient` shapes it for speech. */
+  query: (query: string, sessionId: string, signal?: AbortSignal) => Promise<any>;
+}
+
+export interface ActionLogAdapter {
+  name: string;
+  logAction: (action: SupportAction) => Promise<DeliveryResult>;
+  /** Stores the end-of-call record supervisors review. */
+  logCallSummary: (summary: CallSummary) => Promise<DeliveryResult>;
+  /**
+   * Null when nothing matches, including a right reference with the wrong
+   * contact, so codes cannot be probed. Absent where the store cannot be
+   * queried (Sheets without a lookup endpoint); sessions then go without
+   * check_ticket_status.
+   */
+  findAction?: (lookup: ActionLookup) => Promise<ActionRecord | null>;
+  /** Starts background work such as outbox retries; returns a stop function. */
+  start?: () => () => void;
+}
+
+/** Everything an agent needs to pick the conversation up without asking again. */
+export interface HandoffRequest {
+  sessionId: string;
+  reason: string;
+  preference: HandoffPreference;
+  contact: CustomerContact;
+  transcript: Pick<MessageLog, 'role' | 'text' | 'timestamp'>[];
+  profileId?: string;
+  requestedAt: string;
+}
+
+export interface HandoffAdapter {
+  name: string;
+  requestAgent: (request: HandoffRequest) => Promise<HandoffTicket>;
+}
+
+export interface RecordingAdapter {
+  name: string;
+  /** Resolves with the store's id for the recording. */
+  uploadRecording: (recording: CallRecording) => Promise<{ id: string }>;
+}
+
+export type KnowledgeAdapterKind = 'n8n' | 'rest' | 'mock';
+export type ActionLogAdapterKind = 'sheets' | 'rest' | 'mock';
+export type HandoffAdapterKind = 'rest' | 'mock';
+export type RecordingAdapterKind = 'rest' | 'mock';
+
+export interface BackendConfig {
+  knowledgeAdapter: KnowledgeAdapterKind;
+  knowledgeUrl?: string;
+  knowledgeTimeoutMs?: number;
+  knowledgeCacheTtlMs?: number;
+  actionsAdapter: ActionLogAdapterKind;
+  actionsUrl?: string;
+  actionsEndpointMode?: 'cors' | 'no-cors';
+  actionsLookupUrl?: string;
+  handoffAdapter: HandoffAdapterKind;
+  handoffUrl?: string;
+  recordingsAdapter: RecordingAdapterKind;
+  recordingsUrl?: string;
+}
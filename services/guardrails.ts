@@ -0,0 +1,126 @@
+import { GuardrailRule } from '../config/guardrails';
+
+export interface GuardrailViolation {
+  ruleId: string;
+  kind: GuardrailRule['kind'];
+  /** The words that broke the rule, folded as by `foldForMatching`. */
+  match: string;
+  correction: string;
+}
+
+export interface GuardrailMonitorOptions {
+  /** Called for every violation, corrected or not. */
+  onViolation: (violation: GuardrailViolation, corrected: boolean) => void;
+  /** Sends the corrective instruction into the live session. */
+  sendCorrection: (text: string) => void;
+  /** A rule is corrected at most once in this window; later breaches are only counted. */
+  correctionCooldownMs?: number;
+  now?: () => number;
+}
+
+export interface GuardrailMonitor {
+  /** Feeds the next chunk of the assistant's output transcript. */
+  observe: (chunk: string) => void;
+  /** Marks the end of the assistant's turn (turn complete or interrupted). */
+  endTurn: () => void;
+  counts: () => Record<string, number>;
+}
+
+const ARABIC_MARKS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED\u0640]/g;
+
+/**
+ * Folds text so spellings compare equal when they sound the same: no Arabic
+ * diacritics or tatweel, one alef, ta marbuta as ha, lower-case Latin.
+ */
+export function foldForMatching(text: string): string {
+  return text
+    .replace(ARABIC_MARKS, '')
+    .replace(/[إأآٱ]/g, 'ا')
+    .replace(/ة/g, 'ه')
+    .replace(/ى/g, 'ي')
+    .toLowerCase();
+}
+
+const isArabic = (term: string) => /[\u0600-\u06FF]/.test(term);
+const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Arabic terms match inside words too, so "الرياضة" and "والرياضة" are caught;
+// Latin ones need word boundaries so "Riyada" does not fire inside "Riyadah".
+const termPattern = (term: string) => {
+  const needle = escape(foldForMatching(term));
+  return isArabic(term)
+    ? new RegExp(`[\\u0600-\\u06FF]*${needle}[\\u0600-\\u06FF]*`, 'g')
+    : new RegExp(`\\b${needle}\\b`, 'g');
+};
+
+function findTerm(folded: string, term: string, allowedPhrases: string[] = []): string | null {
+  const allowed = allowedPhrases.flatMap(p => [...folded.matchAll(termPattern(p))].map(m => [m.index!, m.index! + m[0].length]));
+  for (const m of folded.matchAll(termPattern(term))) {
+    const end = m.index! + m[0].length;
+    if (!allowed.some(([from, to]) => m.index! >= from && end <= to)) return m[0];
+  }
+  return null;
+}
+
+/** Every rule `text` breaks, in rule order. Pure, so rules can be checked against fixture transcripts. */
+export function evaluateRules(text: string, rules: GuardrailRule[]): GuardrailViolation[] {
+  const folded = foldForMatching(text);
+  const violations: GuardrailViolation[] = [];
+  for (const rule of rules) {
+    let match: string | null = null;
+    switch (rule.kind) {
+      case 'forbidden':
+        match = rule.terms.map(t => findTerm(folded, t, rule.allowedPhrases)).find(Boolean) ?? null;
+        break;
+      case 'spelling':
+        match = rule.variants.map(v => findTerm(folded, v)).find(Boolean) ?? null;
+        break;
+      case 'off-topic': {
+        const hits = rule.keywords.map(k => findTerm(folded, k)).filter((m): m is string => !!m);
+        if (new Set(hits).size >= rule.minHits) match = [...new Set(hits)].join(', ');
+        break;
+      }
+    }
+    if (match) {
+      violations.push({ ruleId: rule.id, kind: rule.kind, match, correction: rule.correction.replace('{match}', match) });
+    }
+  }
+  return violations;
+}
+
+/**
+ * Watches the assistant's output transcript turn by turn. Each rule fires at
+ * most once per turn however many chunks repeat the slip; counts are per rule
+ * for the whole call.
+ */
+export function createGuardrailMonitor(rules: GuardrailRule[], options: GuardrailMonitorOptions): GuardrailMonitor {
+  const { onViolation, sendCorrection, correctionCooldownMs = 30000, now = Date.now } = options;
+  const counts: Record<string, number> = {};
+  const lastCorrected = new Map<string, number>();
+  let turn = '';
+  let firedThisTurn = new Set<string>();
+
+  return {
+    observe: chunk => {
+      turn += chunk;
+      for (const violation of evaluateRules(turn, rules)) {
+        if (firedThisTurn.has(violation.ruleId)) continue;
+        firedThisTurn.add(violation.ruleId);
+        counts[violation.ruleId] = (counts[violation.ruleId] || 0) + 1;
+
+        const last = lastCorrected.get(violation.ruleId);
+        const corrected = last === undefined || now() - last >= correctionCooldownMs;
+        if (corrected) {
+          lastCorrected.set(violation.ruleId, now());
+          sendCorrection(`[System note] ${violation.correction}`);
+        }
+        onViolation(violation, corrected);
+      }
+    },
+    endTurn: () => {
+      turn = '';
+      firedThisTurn = new Set();
+    },
+    counts: () => ({ ...counts }),
+  };
+}
@@ -0,0 +1,221 @@
+import { normalizeDigits } from '../utils/validation';
+import { KnowledgeAdapter } from './adapters/types';
+
+export interface KnowledgeSource {
+  title: string;
+  url?: string;
+}
+
+export interface KnowledgeAnswer {
+  answer: string;
+  sources: KnowledgeSource[];
+  /**
+   * The endpoint marked the reply `"cacheScope": "shared"`: it depends on neither
+   * the caller nor the conversation, so other sessions may reuse it.
+   */
+  shared: boolean;
+}
+
+export type KnowledgeResult =
+  | (KnowledgeAnswer & { status: 'answered'; truncated: boolean; cached: boolean })
+  /** The lookup is still running; asking again picks up its answer. */
+  | { status: 'pending' };
+
+export interface KnowledgeClientOptions {
+  /** How long one ask waits before returning `pending`. */
+  timeoutMs?: number;
+  /** A lookup still running after this is abandoned. */
+  maxWaitMs?: number;
+  cacheTtlMs?: number;
+  maxCacheEntries?: number;
+  maxAnswerChars?: number;
+  now?: () => number;
+}
+
+export interface KnowledgeClient {
+  ask: (query: string, sessionId: string) => Promise<KnowledgeResult>;
+}
+
+const ANSWER_KEYS = ['output', 'answer', 'text', 'response', 'result', 'message', 'content', 'reply'];
+const NESTED_KEYS = ['data', 'body', 'json'];
+const SOURCE_KEYS = ['sources', 'citations', 'references', 'sourceDocuments', 'documents'];
+const MAX_SESSIONS = 50;
+
+function toSource(raw: unknown): KnowledgeSource | null {
+  if (typeof raw === 'string') {
+    const text = raw.trim();
+    if (!text) return null;
+    return /^https?:\/\//.test(text) ? { title: text, url: text } : { title: text };
+  }
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, any>;
+  const meta = (r.metadata && typeof r.metadata === 'object' ? r.metadata : {}) as Record<string, any>;
+  const url = [r.url, r.link, r.href, meta.url, meta.source].find(v => typeof v === 'string' && /^https?:\/\//.test(v));
+  const title = [r.title, r.name, meta.title, r.source, meta.source, url].find(v => typeof v === 'string' && v.trim());
+  return title ? { title: title.trim(), url } : null;
+}
+
+function findSources(raw: Record<string, any>): KnowledgeSource[] {
+  for (const key of SOURCE_KEYS) {
+    const list = raw[key];
+    if (Array.isArray(list)) return list.map(toSource).filter((s): s is KnowledgeSource => !!s);
+  }
+  return [];
+}
+
+/**
+ * Reduces the shapes knowledge webhooks reply with — a bare string, n8n's
+ * `[{ output }]`, `{ answer, sources }`, `{ data: { text } }`, ... — to one answer
+ * and its sources. Unknown shapes give an empty answer rather than a JSON dump.
+ */
+export function normalizeKnowledgeResponse(raw: unknown, depth = 0): KnowledgeAnswer {
+  if (typeof raw === 'string') return { answer: raw.trim(), sources: [], shared: false };
+  if (Array.isArray(raw)) {
+    const parts = raw.slice(0, 5).map(item => normalizeKnowledgeResponse(item, depth + 1));
+    return {
+      answer: parts.map(p => p.answer).filter(Boolean).join('\n'),
+      sources: parts.flatMap(p => p.sources),
+      shared: parts.length > 0 && parts.every(p => p.shared),
+    };
+  }
+  if (!raw || typeof raw !== 'object' || depth > 3) return { answer: '', sources: [], shared: false };
+
+  const r = raw as Record<string, any>;
+  const sources = findSources(r);
+  const shared = r.cacheScope === 'shared';
+  const fromInner = (inner: KnowledgeAnswer): KnowledgeAnswer =>
+    ({ answer: inner.answer, sources: sources.length ? sources : inner.sources, shared: shared || inner.shared });
+  for (const key of ANSWER_KEYS) {
+    const value = r[key];
+    if (typeof value === 'string' && value.trim()) return { answer: value.trim(), sources, shared };
+    if (value && typeof value === 'object') {
+      const inner = normalizeKnowledgeResponse(value, depth + 1);
+      if (inner.answer) return fromInner(inner);
+    }
+  }
+  for (const key of NESTED_KEYS) {
+    if (r[key] && typeof r[key] === 'object') {
+      const inner = normalizeKnowledgeResponse(r[key], depth + 1);
+      if (inner.answer) return fromInner(inner);
+    }
+  }
+  return { answer: '', sources, shared };
+}
+
+/** Strips markdown the voice would read aloud and cuts at the last full sentence under `maxChars`. */
+export function trimForSpeech(text: string, maxChars: number): { text: string; truncated: boolean } {
+  const plain = text
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}|[-*+•]|\d+[.)])\s+/gm, '')
+    .replace(/[*_`~]+/g, '')
+    .replace(/\s*\n+\s*/g, '. ')
+    .replace(/([.!?؟]\s*)\.\s/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (plain.length <= maxChars) return { text: plain, truncated: false };
+
+  const head = plain.slice(0, maxChars);
+  const cut = Math.max(...['. ', '! ', '? ', '؟ ', '。'].map(p => head.lastIndexOf(p)));
+  // Keep at least half the budget; a very early sentence end would throw most of the answer away.
+  if (cut > maxChars / 2) return { text: head.slice(0, cut + 1).trim(), truncated: true };
+  const space = head.lastIndexOf(' ');
+  return { text: `${head.slice(0, space > 0 ? space : maxChars).trim()}…`, truncated: true };
+}
+
+/** Case, digit script, punctuation and spacing do not make a different question. */
+export function knowledgeCacheKey(query: string): string {
+  return normalizeDigits(query).toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+interface CacheEntry {
+  value: KnowledgeAnswer & { truncated: boolean };
+  expiresAt: number;
+}
+
+/**
+ * Wraps a knowledge adapter with response shaping, a per-ask timeout and two
+ * TTL caches: one per session (answers may depend on the conversation the
+ * webhook remembers) checked first, and one shared across sessions that only
+ * holds answers the endpoint marked `shared`.
+ */
+export function createKnowledgeClient(adapter: KnowledgeAdapter, options: KnowledgeClientOptions = {}): KnowledgeClient {
+  const {
+    timeoutMs = 6000,
+    maxWaitMs = 30000,
+    cacheTtlMs = 10 * 60 * 1000,
+    maxCacheEntries = 200,
+    maxAnswerChars = 600,
+    now = Date.now,
+  } = options;
+  const shared = new Map<string, CacheEntry>();
+  const perSession = new Map<string, Map<string, CacheEntry>>();
+  const inFlight = new Map<string, Promise<CacheEntry['value']>>();
+
+  const read = (cache: Map<string, CacheEntry> | undefined, key: string) => {
+    const entry = cache?.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= now()) {
+      cache!.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  };
+
+  const write = (cache: Map<string, CacheEntry>, key: string, value: CacheEntry['value']) => {
+    cache.delete(key);
+    cache.set(key, { value, expiresAt: now() + cacheTtlMs });
+    // Maps keep insertion order, so the first key is the oldest.
+    while (cache.size > maxCacheEntries) cache.delete(cache.keys().next().value!);
+  };
+
+  const lookup = (query: string, sessionId: string, key: string) => {
+    const flightKey = `${sessionId}|${key}`;
+    const pending = inFlight.get(flightKey);
+    if (pending) return pending;
+
+    const controller = new AbortController();
+    const abandon = setTimeout(() => controller.abort(), maxWaitMs);
+    const request = adapter.query(query, sessionId, controller.signal)
+      .then(raw => {
+        const { answer, sources, shared: reusable } = normalizeKnowledgeResponse(raw);
+        const trimmed = trimForSpeech(answer, maxAnswerChars);
+        const value = { answer: trimmed.text, sources, shared: reusable, truncated: trimmed.truncated };
+        // Empty answers are not cached so a fixed knowledge base is picked up immediately.
+        if (value.answer) {
+          const sessionCache = perSession.get(sessionId) || new Map<string, CacheEntry>();
+          perSession.delete(sessionId);
+          perSession.set(sessionId, sessionCache);
+          while (perSession.size > MAX_SESSIONS) perSession.delete(perSession.keys().next().value!);
+          write(sessionCache, key, value);
+          if (reusable) write(shared, key, value);
+        }
+        return value;
+      })
+      .finally(() => {
+        clearTimeout(abandon);
+        inFlight.delete(flightKey);
+      });
+    inFlight.set(flightKey, request);
+    return request;
+  };
+
+  return {
+    ask: async (query, sessionId) => {
+      const key = knowledgeCacheKey(query);
+      const hit = read(perSession.get(sessionId), key) ?? read(shared, key);
+      if (hit) return { status: 'answered', ...hit, cached: true };
+
+      const request = lookup(query, sessionId, key);
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const timeout = new Promise<null>(resolve => { timer = setTimeout(() => resolve(null), timeoutMs); });
+      try {
+        const value = await Promise.race([request, timeout]);
+        return value ? { status: 'answered', ...value, cached: false } : { status: 'pending' };
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+  };
+}
@@ -0,0 +1,88 @@
+
+export interface OutboxEntry {
+  /** Idempotency key; also the record key. */
+  id: string;
+  body: Record<string, unknown>;
+  attempts: number;
+  createdAt: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+export interface OutboxStore {
+  put: (entry: OutboxEntry) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  all: () => Promise<OutboxEntry[]>;
+}
+
+const DB_PREFIX = 'riyadah-outbox';
+const STORE_NAME = 'actions';
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(name, 1);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * `namespace` keeps each endpoint's queue apart so entries never reach the wrong backend.
+ * If the database cannot be opened (storage blocked, quota exceeded) every call goes to `fallback`.
+ */
+export function createIndexedDbOutboxStore(namespace: string, fallback?: OutboxStore): OutboxStore {
+  let dbPromise: Promise<IDBDatabase | null> | null = null;
+  const database = () => {
+    dbPromise = dbPromise || openDatabase(`${DB_PREFIX}:${namespace}`).catch(e => {
+      if (!fallback) throw e;
+      console.warn('Outbox: IndexedDB unavailable, keeping actions for this page only:', e);
+      return null;
+    });
+    return dbPromise;
+  };
+  const run = <T>(db: IDBDatabase, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) =>
+    request(fn(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+
+  return {
+    put: async entry => {
+      const db = await database();
+      if (db) await run(db, 'readwrite', s => s.put(entry));
+      else await fallback.put(entry);
+    },
+    remove: async id => {
+      const db = await database();
+      if (db) await run(db, 'readwrite', s => s.delete(id));
+      else await fallback.remove(id);
+    },
+    all: async () => {
+      const db = await database();
+      return db ? run(db, 'readonly', s => s.getAll() as IDBRequest<OutboxEntry[]>) : fallback.all();
+    },
+  };
+}
+
+/** Used where IndexedDB is unavailable or fails to open (private mode, tests); entries last for the page only. */
+export function createMemoryOutboxStore(): OutboxStore {
+  const entries = new Map<string, OutboxEntry>();
+  return {
+    put: async entry => { entries.set(entry.id, { ...entry }); },
+    remove: async id => { entries.delete(id); },
+    all: async () => [...entries.values()].map(e => ({ ...e })),
+  };
+}
+
+export function createOutboxStore(namespace: string): OutboxStore {
+  return typeof indexedDB !== 'undefined'
+    ? createIndexedDbOutboxStore(namespace, createMemoryOutboxStore())
+    : createMemoryOutboxStore();
+}
@@ -0,0 +1,113 @@
+import { LiveServerSessionResumptionUpdate } from '@google/genai';
+import { CustomerContact, MessageLog } from '../types';
+
+export interface ReconnectionOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** An attempt that has not opened by then counts as failed. */
+  attemptTimeoutMs?: number;
+}
+
+export interface ReconnectionManager {
+  /** Keeps the latest resumable handle; updates with resumable=false are ignored. */
+  trackResumption: (update: LiveServerSessionResumptionUpdate) => void;
+  handle: () => string | undefined;
+  /**
+   * Calls `open` with backoff until it succeeds or attempts run out. A failed
+   * attempt keeps the handle, since a network error says nothing about it; a
+   * resumed session that drops again before the server confirms it had its
+   * handle refused, so the next reconnect starts a fresh, re-seeded session.
+   * `signal` aborts when the attempt times out or the reconnect is cancelled;
+   * `open` must then close whatever it opened. Resolves false when it gave up
+   * or was cancelled.
+   */
+  reconnect: (open: (handle: string | undefined, signal: AbortSignal) => Promise<void>) => Promise<boolean>;
+  /** Stops a pending reconnect and forgets the handle, e.g. when the call ends. */
+  cancel: () => void;
+}
+
+export function createReconnectionManager(options: ReconnectionOptions = {}): ReconnectionManager {
+  const { maxAttempts = 5, baseDelayMs = 1000, maxDelayMs = 15000, attemptTimeoutMs = 15000 } = options;
+  let handle: string | undefined;
+  /** Reopened with a handle and no resumption update since. */
+  let unconfirmed = false;
+  let cancelled = false;
+  let wake: (() => void) | null = null;
+  let attempt: AbortController | null = null;
+
+  const sleep = (ms: number) => new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    wake = () => { clearTimeout(timer); resolve(); };
+  });
+
+  const attemptOpen = (open: (handle: string | undefined, signal: AbortSignal) => Promise<void>) => {
+    const controller = (attempt = new AbortController());
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const aborted = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener('abort', () => reject(controller.signal.reason));
+      timer = setTimeout(() => controller.abort(new Error('Reconnect timed out.')), attemptTimeoutMs);
+    });
+    return Promise.race([open(handle, controller.signal), aborted]).finally(() => {
+      clearTimeout(timer);
+      if (attempt === controller) attempt = null;
+    });
+  };
+
+  return {
+    trackResumption: update => {
+      unconfirmed = false;
+      if (update.resumable && update.newHandle) handle = update.newHandle;
+    },
+    handle: () => handle,
+    reconnect: async open => {
+      cancelled = false;
+      if (unconfirmed) {
+        handle = undefined;
+        unconfirmed = false;
+      }
+      for (let n = 0; n < maxAttempts; n++) {
+        await sleep(Math.min(maxDelayMs, baseDelayMs * 2 ** n));
+        if (cancelled) return false;
+        try {
+          await attemptOpen(open);
+          if (cancelled) return false;
+          unconfirmed = !!handle;
+          return true;
+        } catch (e) {
+          if (cancelled) return false;
+          console.warn(`Reconnect attempt ${n + 1} failed:`, e);
+        }
+      }
+      return false;
+    },
+    cancel: () => {
+      cancelled = true;
+      handle = undefined;
+      unconfirmed = false;
+      attempt?.abort(new Error('Reconnect cancelled.'));
+      wake?.();
+    },
+  };
+}
+
+const SEED_TURNS = 12;
+const SEED_TURN_CHARS = 300;
+
+/** Context for a fresh session that replaces a dropped one it could not resume. */
+export function buildResumeSeed(messages: MessageLog[], contact: CustomerContact): string {
+  const turns = messages
+    .filter(m => m.text.trim())
+    .slice(-SEED_TURNS)
+    .map(m => `${m.role === 'user' ? 'Customer' : 'Assistant'}: ${m.text.trim().slice(0, SEED_TURN_CHARS)}`);
+  const known = (Object.entries(contact) as [keyof CustomerContact, string | undefined][])
+    .filter(([, value]) => value)
+    .map(([key, value]) => `${key}: ${value}`);
+
+  return [
+    '[System note] The call dropped and has just reconnected. This is the same customer and the same conversation.',
+    turns.length ? `Conversation so far:\n${turns.join('\n')}` : 'The conversation had only just started.',
+    known.length ? `Contact details already collected (do not ask for them again):\n${known.join('\n')}` : '',
+    'Briefly apologise for the interruption in the language the customer was using, then continue where you left off.',
+  ].filter(Boolean).join('\n\n');
+}
@@ -0,0 +1,103 @@
+import { CAPTURE_SAMPLE_RATE } from '../../utils/audioCapture';
+import { encodeStereoWav, resamplePcm } from '../../utils/wav';
+
+/** The model's output rate; the caller side is upsampled to it. */
+export const RECORDING_SAMPLE_RATE = 24000;
+
+/** A caller chunk arriving this close to where the last one ended continues it, absorbing delivery jitter. */
+const CALLER_JITTER_SEC = 0.25;
+
+interface Segment {
+  start: number;
+  data: Int16Array;
+}
+
+export interface CallRecorderOptions {
+  /** Seconds; the output audio context's clock, so assistant audio lands where it was played. */
+  clock: () => number;
+  maxSeconds: number;
+}
+
+export interface RecordedAudio {
+  wav: Uint8Array;
+  durationSec: number;
+  truncated: boolean;
+}
+
+export interface CallRecorder {
+  /** A 16 kHz capture chunk that has just finished arriving. */
+  addCaller: (pcm: Int16Array) => void;
+  /** 24 kHz model audio scheduled to start playing at `at` on the clock. */
+  addAssistant: (pcm: Int16Array, at: number) => void;
+  /** Drops assistant audio from `at` on: it was stopped before anyone heard it. */
+  cutAssistant: (at: number) => void;
+  /** Ends the recording now and renders the file; later audio is ignored. */
+  finish: () => RecordedAudio;
+}
+
+/**
+ * Keeps both sides as timed segments and only mixes them into a file at the
+ * end. Times are sample offsets from when the recorder was created, i.e. from
+ * the moment the caller agreed.
+ */
+export function createCallRecorder({ clock, maxSeconds }: CallRecorderOptions): CallRecorder {
+  const startedAt = clock();
+  const limit = Math.round(maxSeconds * RECORDING_SAMPLE_RATE);
+  const caller: Segment[] = [];
+  const assistant: Segment[] = [];
+  let callerEnd = -Infinity;
+  let truncated = false;
+  let finished = false;
+
+  const toSample = (t: number) => Math.round((t - startedAt) * RECORDING_SAMPLE_RATE);
+
+  const push = (track: Segment[], start: number, data: Int16Array) => {
+    if (finished) return;
+    if (start < 0) {
+      data = data.subarray(Math.min(data.length, -start));
+      start = 0;
+    }
+    if (start + data.length > limit) {
+      truncated = true;
+      data = data.subarray(0, Math.max(0, limit - start));
+    }
+    if (data.length) track.push({ start, data });
+  };
+
+  const cutAssistant = (at: number) => {
+    const cut = toSample(at);
+    for (let i = assistant.length - 1; i >= 0; i--) {
+      const segment = assistant[i];
+      if (segment.start >= cut) assistant.splice(i, 1);
+      else if (segment.start + segment.data.length > cut) segment.data = segment.data.subarray(0, cut - segment.start);
+    }
+  };
+
+  const render = (track: Segment[], length: number) => {
+    const out = new Int16Array(length);
+    for (const { start, data } of track) out.set(data.subarray(0, Math.max(0, length - start)), start);
+    return out;
+  };
+
+  return {
+    addCaller: pcm => {
+      const data = resamplePcm(pcm, CAPTURE_SAMPLE_RATE, RECORDING_SAMPLE_RATE);
+      const arrived = toSample(clock()) - data.length;
+      const start = Math.abs(arrived - callerEnd) <= CALLER_JITTER_SEC * RECORDING_SAMPLE_RATE ? callerEnd : arrived;
+      callerEnd = start + data.length;
+      push(caller, start, data);
+    },
+    addAssistant: (pcm, at) => push(assistant, toSample(at), pcm),
+    cutAssistant,
+    finish: () => {
+      if (!finished) cutAssistant(clock());
+      finished = true;
+      const length = [...caller, ...assistant].reduce((end, s) => Math.max(end, s.start + s.data.length), 0);
+      return {
+        wav: encodeStereoWav(render(caller, length), render(assistant, length), RECORDING_SAMPLE_RATE),
+        durationSec: length / RECORDING_SAMPLE_RATE,
+        truncated,
+      };
+    },
+  };
+}
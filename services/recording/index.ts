@@ -0,0 +1,42 @@
+import { CallRecording, CallSummary, MessageLog, RecordingConsent } from '../../types';
+import { RECORDING_SAMPLE_RATE, RecordedAudio } from './callRecorder';
+
+export * from './callRecorder';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Puts the audio together with the transcript and tool log, on the audio's timeline. */
+export function buildCallRecording(
+  audio: RecordedAudio,
+  details: {
+    summary: CallSummary;
+    messages: MessageLog[];
+    consent: RecordingConsent;
+    /** Wall-clock ms when recording started. */
+    startedAtMs: number;
+    retentionDays: number;
+  },
+): CallRecording {
+  const { summary, messages, consent, startedAtMs, retentionDays } = details;
+  const offset = (ms: number) => Math.round(ms - startedAtMs) / 1000;
+  return {
+    sessionId: summary.sessionId,
+    callNumber: summary.callNumber,
+    startedAt: new Date(startedAtMs).toISOString(),
+    durationSec: audio.durationSec,
+    audio: new Blob([audio.wav], { type: 'audio/wav' }),
+    sampleRate: RECORDING_SAMPLE_RATE,
+    consent,
+    truncated: audio.truncated,
+    expiresAt: new Date(startedAtMs + retentionDays * DAY_MS).toISOString(),
+    transcript: messages
+      .filter(m => m.isFinal && m.text.trim())
+      .map(m => ({ role: m.role, text: m.text, offsetSec: offset(m.timestamp.getTime()) })),
+    toolCalls: summary.toolCalls.map(t => ({ ...t, offsetSec: offset(Date.parse(t.at)) })),
+    recap: summary.recap,
+  };
+}
+
+/** "riyadah-call-sess_ab12cd34-2.wav" */
+export const recordingFileName = (recording: CallRecording) =>
+  `riyadah-call-${recording.sessionId}-${recording.callNumber}.wav`;
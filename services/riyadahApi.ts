@@ -1,69 +1,123 @@
+import { CallRecording, CallSummary, HandoffTicket } from '../types';
+import { ActionRejectedError, DeliveryResult } from './actionDelivery';
+import {
+  ActionLogAdapter,
+  ActionLookup,
+  ActionReceipt,
+  ActionRecord,
+  HandoffAdapter,
+  HandoffRequest,
+  KnowledgeAdapter,
+  RecordingAdapter,
+  SupportAction,
+  backendConfigFromEnv,
+  createActionLogAdapter,
+  createHandoffAdapter,
+  createKnowledgeAdapter,
+  createRecordingAdapter,
+} from './adapters';
+import { KnowledgeClient, KnowledgeResult, createKnowledgeClient } from './knowledgeClient';
+import { createReferenceCode } from '../utils/referenceCode';
+import { recordingConfigFromEnv } from '../config/recording';
 
-const WEBHOOK_URL = 'https://n8n.riyadah.com.eg/webhook/8c5879b7-c4d6-4da1-82e2-f42b51fb1dae/chat';
-const GOOGLE_SHEETS_URL = 'https://script.google.com/macros/s/AKfycbzKruxQQX9r3Bav0wu7F1BwGvunXV1Kmu5ty44WDATTsucNvBREe7zFtqA0TlOSfqXfdg/exec';
+let knowledgeAdapter: KnowledgeAdapter | null = null;
+let knowledgeClient: KnowledgeClient | null = null;
+let handoffAdapter: HandoffAdapter | null = null;
+let actionLogAdapter: ActionLogAdapter | null = null;
+let recordingAdapter: RecordingAdapter | null = null;
 
-export async function queryKnowledgeBase(query: string, sessionId: string): Promise<any> {
-  try {
-    const response = await fetch(WEBHOOK_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      body: JSON.stringify({
-        query,
-        chatInput: query,
-        message: query,
-        sessionId,
-        action: 'chat',
-        timestamp: new Date().toISOString()
-      }),
-    });
+// Built on first use so importing the tools (the token server does) needs no backend config.
+export function getKnowledgeAdapter(): KnowledgeAdapter {
+  return knowledgeAdapter || (knowledgeAdapter = createKnowledgeAdapter(backendConfigFromEnv()));
+}
 
-    if (!response.ok) {
-      throw new Error(`Knowledge base error: ${response.status}`);
-    }
+export function getActionLogAdapter(): ActionLogAdapter {
+  return actionLogAdapter || (actionLogAdapter = createActionLogAdapter(backendConfigFromEnv()));
+}
 
-    return await response.json();
+export function getHandoffAdapter(): HandoffAdapter {
+  return handoffAdapter || (handoffAdapter = createHandoffAdapter(backendConfigFromEnv()));
+}
+
+export function getRecordingAdapter(): RecordingAdapter {
+  return recordingAdapter || (recordingAdapter = createRecordingAdapter(backendConfigFromEnv()));
+}
+
+function getKnowledgeClient(): KnowledgeClient {
+  if (knowledgeClient) return knowledgeClient;
+  const config = backendConfigFromEnv();
+  return (knowledgeClient = createKnowledgeClient(getKnowledgeAdapter(), {
+    timeoutMs: config.knowledgeTimeoutMs,
+    cacheTtlMs: config.knowledgeCacheTtlMs,
+  }));
+}
+
+export async function queryKnowledgeBase(query: string, sessionId: string): Promise<KnowledgeResult> {
+  return getKnowledgeClient().ask(query, sessionId);
+}
+
+/** Logs the action under a new reference code, which exists even while delivery is still queued. */
+export async function submitSupportAction(data: Omit<SupportAction, 'reference'>): Promise<ActionReceipt> {
+  const reference = createReferenceCode();
+  try {
+    const delivery = await getActionLogAdapter().logAction({ ...data, reference });
+    return { ...delivery, reference };
   } catch (error: any) {
-    throw error;
+    console.error('Logging Error:', error);
+    if (error instanceof ActionRejectedError) {
+      throw new Error(`The system rejected this request: ${error.message}`);
+    }
+    throw new Error('Failed to log action to system.');
   }
 }
 
-export async function submitSupportAction(data: {
-  messageType: 'Booking' | 'Support Ticket' | 'Sales Query';
-  actionDone: 'Appointment Scheduled' | 'Support Ticket Logged' | 'Sales info Delivered';
-  clientName: string;
-  phone: string;
-  email: string;
-  topic: string;
-}): Promise<any> {
+export async function findSupportAction(lookup: ActionLookup): Promise<ActionRecord | null> {
+  const adapter = getActionLogAdapter();
+  if (!adapter.findAction) {
+    throw new Error('Ticket status cannot be checked from here. Offer to connect the customer to a person with request_human_agent.');
+  }
   try {
-    // Exact mapping to match your Google Apps Script:
-    // data.type, data.title, data.details
-    const payload = {
-      type: data.messageType,
-      title: data.actionDone,
-      details: {
-        client: data.clientName,
-        phone: data.phone,
-        email: data.email,
-        topic: data.topic,
-        timestamp: new Date().toLocaleString('en-GB', { timeZone: 'Africa/Cairo' })
-      }
-    };
+    return await adapter.findAction(lookup);
+  } catch (error: any) {
+    console.error('Lookup Error:', error);
+    throw new Error('The ticket system could not be reached.');
+  }
+}
 
-    // For Google Apps Script, 'no-cors' with a string body is the most reliable 
-    // way to bypass CORS and ensure the string arrives in e.postData.contents
-    await fetch(GOOGLE_SHEETS_URL, {
-      method: 'POST',
-      mode: 'no-cors',
-      body: JSON.stringify(payload)
-    });
+export async function submitCallSummary(summary: CallSummary): Promise<DeliveryResult> {
+  return getActionLogAdapter().logCallSummary(summary);
+}
 
-    return { status: 'success' };
-  } catch (error) {
-    console.error('Logging Error:', error);
-    throw new Error('Failed to log action to system.');
+export async function requestHumanAgent(request: HandoffRequest): Promise<HandoffTicket> {
+  try {
+    return await getHandoffAdapter().requestAgent(request);
+  } catch (error: any) {
+    console.error('Handoff Error:', error);
+    throw new Error('The agent queue could not be reached.');
   }
 }
+
+export async function uploadRecording(recording: CallRecording): Promise<{ id: string }> {
+  try {
+    return await getRecordingAdapter().uploadRecording(recording);
+  } catch (error: any) {
+    console.error('Recording Upload Error:', error);
+    throw new Error('The recording could not be uploaded.');
+  }
+}
+
+/** Tools this build has no backend for or has switched off; sessions are opened without them rather than failing mid-call. */
+export function unavailableTools(): string[] {
+  const config = backendConfigFromEnv();
+  const tools: string[] = [];
+  if (config.handoffAdapter === 'rest' && !config.handoffUrl) tools.push('request_human_agent');
+  if (!getActionLogAdapter().findAction) tools.push('check_ticket_status');
+  if (!recordingConfigFromEnv().enabled) tools.push('set_recording_consent');
+  return tools;
+}
+
+/** Starts the action adapter's background retries, if it has any. */
+export function startBackend(): () => void {
+  const adapter = getActionLogAdapter();
+  return adapter.start ? adapter.start() : () => {};
+}
@@ -0,0 +1,133 @@
+import { BUSINESS_TIME_ZONE, addDays, fromWallTime } from '../../utils/datetime';
+import { overlaps } from './memoryCalendar';
+import { BusyInterval, CalendarSource } from './types';
+
+interface IcsProperty {
+  params: Record<string, string>;
+  value: string;
+}
+
+/** Joins folded lines (a continuation starts with a space or tab) and splits off parameters. */
+function readProperties(text: string): [string, IcsProperty][] {
+  const lines = text.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const out: [string, IcsProperty][] = [];
+  for (const line of lines) {
+    const colon = line.indexOf(':');
+    if (colon < 0) continue;
+    const [name, ...rawParams] = line.slice(0, colon).split(';');
+    const params: Record<string, string> = {};
+    for (const p of rawParams) {
+      const [key, value = ''] = p.split('=');
+      params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+    }
+    out.push([name.toUpperCase(), { params, value: line.slice(colon + 1).trim() }]);
+  }
+  return out;
+}
+
+function isTimeZone(name: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: name });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseIcsDate(prop: IcsProperty, defaultTimeZone: string): { date: Date; allDay: boolean } | null {
+  const m = prop.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!m) return null;
+  const [year, month, day] = [+m[1], +m[2], +m[3]];
+  const tzid = prop.params.TZID;
+  const timeZone = tzid && isTimeZone(tzid) ? tzid : defaultTimeZone;
+  if (!m[4]) return { date: fromWallTime({ year, month, day, hour: 0, minute: 0 }, timeZone), allDay: true };
+  if (m[7]) return { date: new Date(Date.UTC(year, month - 1, day, +m[4], +m[5], +(m[6] || 0))), allDay: false };
+  return { date: fromWallTime({ year, month, day, hour: +m[4], minute: +m[5] }, timeZone), allDay: false };
+}
+
+function parseDuration(value: string): number | null {
+  const m = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!m) return null;
+  const [w, d, h, min, s] = m.slice(2).map(n => Number(n || 0));
+  return (((w * 7 + d) * 24 + h) * 60 + min) * 60000 + s * 1000;
+}
+
+/**
+ * Reads busy time from the VEVENTs of an iCalendar file. Cancelled and
+ * transparent ("free") events are skipped; recurrence rules are not expanded,
+ * so export the calendar with recurring events already materialised.
+ */
+export function parseIcs(text: string, defaultTimeZone = BUSINESS_TIME_ZONE): BusyInterval[] {
+  const intervals: BusyInterval[] = [];
+  let event: Map<string, IcsProperty> | null = null;
+
+  for (const [name, prop] of readProperties(text)) {
+    if (name === 'BEGIN' && prop.value.toUpperCase() === 'VEVENT') {
+      event = new Map();
+    } else if (name === 'END' && prop.value.toUpperCase() === 'VEVENT' && event) {
+      const interval = toInterval(event, defaultTimeZone);
+      if (interval) intervals.push(interval);
+      event = null;
+    } else if (event && !event.has(name)) {
+      event.set(name, prop);
+    }
+  }
+  return intervals;
+}
+
+function toInterval(event: Map<string, IcsProperty>, defaultTimeZone: string): BusyInterval | null {
+  if (event.get('STATUS')?.value.toUpperCase() === 'CANCELLED') return null;
+  if (event.get('TRANSP')?.value.toUpperCase() === 'TRANSPARENT') return null;
+  const start = event.get('DTSTART') && parseIcsDate(event.get('DTSTART')!, defaultTimeZone);
+  if (!start) return null;
+
+  let end = event.get('DTEND') && parseIcsDate(event.get('DTEND')!, defaultTimeZone)?.date;
+  if (!end && event.get('DURATION')) {
+    const ms = parseDuration(event.get('DURATION')!.value);
+    if (ms !== null) end = new Date(start.date.getTime() + ms);
+  }
+  if (!end && start.allDay) {
+    const m = event.get('DTSTART')!.value.match(/^(\d{4})(\d{2})(\d{2})/)!;
+    const next = addDays({ year: +m[1], month: +m[2], day: +m[3] }, 1);
+    end = fromWallTime({ ...next, hour: 0, minute: 0 }, defaultTimeZone);
+  }
+  return { start: start.date, end: end || start.date, label: event.get('SUMMARY')?.value };
+}
+
+/**
+ * A read-only source backed by an ICS file, fetched through `load` and reused
+ * for `refreshMs`. A failed refresh keeps serving the last good copy.
+ */
+export function createIcsCalendar(
+  load: () => Promise<string>,
+  options: { refreshMs?: number; timeZone?: string } = {},
+): CalendarSource {
+  const { refreshMs = 5 * 60 * 1000, timeZone = BUSINESS_TIME_ZONE } = options;
+  let cached: BusyInterval[] | null = null;
+  let fetchedAt = 0;
+
+  const intervals = async () => {
+    if (cached && Date.now() - fetchedAt < refreshMs) return cached;
+    try {
+      cached = parseIcs(await load(), timeZone);
+      fetchedAt = Date.now();
+    } catch (e) {
+      if (!cached) throw e;
+      console.warn('Calendar refresh failed, using the previous copy:', e);
+    }
+    return cached;
+  };
+
+  return {
+    name: 'ics',
+    busy: async (from, to) => (await intervals()).filter(i => overlaps(i, from, to)),
+  };
+}
+
+export function createIcsUrlCalendar(url: string, options: { refreshMs?: number; timeZone?: string } = {}): CalendarSource {
+  return createIcsCalendar(async () => {
+    const res = await fetch(url, { headers: { Accept: 'text/calendar' } });
+    if (!res.ok) throw new Error(`Calendar responded ${res.status}.`);
+    return res.text();
+  }, options);
+}
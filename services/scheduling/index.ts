@@ -0,0 +1,31 @@
+import { CalendarConfig, DEFAULT_SCHEDULE, calendarConfigFromEnv } from '../../config/schedule';
+import { createMemoryCalendar } from './memoryCalendar';
+import { createRestCalendar } from './restCalendar';
+import { Scheduler, createScheduler } from './scheduler';
+import { CalendarSource } from './types';
+
+export * from './types';
+export { createBookingLedger, createMemoryCalendar } from './memoryCalendar';
+export { createIcsCalendar, createIcsUrlCalendar, parseIcs } from './icsCalendar';
+export { createRestCalendar } from './restCalendar';
+export { createScheduler } from './scheduler';
+export type { OpenSlotQuery, Scheduler } from './scheduler';
+
+export function createCalendarSource(config: CalendarConfig): CalendarSource {
+  switch (config.source) {
+    case 'memory':
+      return createMemoryCalendar();
+    case 'rest':
+      if (!config.url) throw new Error('CALENDAR_URL must be set for the rest calendar source.');
+      return createRestCalendar(config.url);
+    default:
+      throw new Error(`Unknown calendar source "${config.source}".`);
+  }
+}
+
+let scheduler: Scheduler | null = null;
+
+// Built on first use, like the backend adapters, so the token server can import the tools.
+export function getScheduler(): Scheduler {
+  return scheduler || (scheduler = createScheduler(DEFAULT_SCHEDULE, createCalendarSource(calendarConfigFromEnv())));
+}
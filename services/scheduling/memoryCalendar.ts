@@ -0,0 +1,47 @@
+import { BusyInterval, CalendarSource, SlotTakenError } from './types';
+
+export const overlaps = (a: { start: Date; end: Date }, from: Date, to: Date) =>
+  a.start.getTime() < to.getTime() && a.end.getTime() > from.getTime();
+
+/** Keeps bookings in memory; seed it with fixtures to test against a busy calendar. */
+export function createMemoryCalendar(
+  intervals: BusyInterval[] = [],
+): CalendarSource & { intervals: BusyInterval[] } {
+  return {
+    name: 'memory',
+    intervals,
+    busy: async (from, to) => intervals.filter(i => overlaps(i, from, to)),
+    reserve: async interval => {
+      if (intervals.some(i => overlaps(i, interval.start, interval.end))) throw new SlotTakenError();
+      intervals.push(interval);
+    },
+    release: async ({ start, end }) => {
+      const index = intervals.findIndex(i => i.start.getTime() === start.getTime() && i.end.getTime() === end.getTime());
+      if (index >= 0) intervals.splice(index, 1);
+    },
+  };
+}
+
+/**
+ * Records bookings on top of a read-only source such as an ICS export.
+ * Reservations run one at a time, so two callers cannot both take a slot
+ * while the source is still being read.
+ */
+export function createBookingLedger(source: CalendarSource): CalendarSource {
+  const bookings = createMemoryCalendar();
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return {
+    name: `${source.name}+bookings`,
+    busy: async (from, to) => [...(await source.busy(from, to)), ...(await bookings.busy(from, to))],
+    reserve: interval => {
+      const run = queue.then(async () => {
+        if ((await source.busy(interval.start, interval.end)).length) throw new SlotTakenError();
+        await bookings.reserve!(interval);
+      });
+      queue = run.catch(() => {});
+      return run;
+    },
+    release: interval => bookings.release!(interval),
+  };
+}
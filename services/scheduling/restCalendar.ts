@@ -0,0 +1,50 @@
+import { isRecord } from '../../utils/validation';
+import { BusyInterval, CalendarSource, SlotTakenError } from './types';
+
+const unrecognised = () => new Error('Calendar returned an unrecognised reply.');
+
+function toInterval(raw: unknown): BusyInterval {
+  if (!isRecord(raw) || typeof raw.start !== 'string' || typeof raw.end !== 'string') throw unrecognised();
+  const interval = { start: new Date(raw.start), end: new Date(raw.end) };
+  if (isNaN(interval.start.getTime()) || isNaN(interval.end.getTime())) throw unrecognised();
+  return interval;
+}
+
+/**
+ * The shared calendar behind the token server (`server/calendar.ts`), or any
+ * service speaking the same JSON: POST { start, end } to `/busy` for
+ * { busy: [{ start, end }] }, and POST { start, end, label? } to `/reserve`,
+ * which answers 409 when the time is already taken. POST { start, end } to
+ * `/confirm` keeps a reservation once the booking is logged, or to `/release` to free it.
+ */
+export function createRestCalendar(url: string): CalendarSource {
+  const post = async (route: 'busy' | 'reserve' | 'confirm' | 'release', body: Record<string, unknown>) => fetch(`${url}/${route}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  return {
+    name: 'rest',
+    busy: async (from, to) => {
+      const response = await post('busy', { start: from.toISOString(), end: to.toISOString() });
+      if (!response.ok) throw new Error(`Calendar responded ${response.status}.`);
+      const reply: unknown = await response.json();
+      if (!isRecord(reply) || !Array.isArray(reply.busy)) throw unrecognised();
+      return reply.busy.map(toInterval);
+    },
+    reserve: async ({ start, end, label }) => {
+      const response = await post('reserve', { start: start.toISOString(), end: end.toISOString(), label });
+      if (response.status === 409) throw new SlotTakenError();
+      if (!response.ok) throw new Error(`Calendar responded ${response.status}.`);
+    },
+    confirm: async ({ start, end }) => {
+      const response = await post('confirm', { start: start.toISOString(), end: end.toISOString() });
+      if (!response.ok) throw new Error(`Calendar responded ${response.status}.`);
+    },
+    release: async ({ start, end }) => {
+      const response = await post('release', { start: start.toISOString(), end: end.toISOString() });
+      if (!response.ok) throw new Error(`Calendar responded ${response.status}.`);
+    },
+  };
+}
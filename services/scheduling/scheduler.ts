@@ -0,0 +1,134 @@
+import { ScheduleConfig } from '../../config/schedule';
+import { CalendarDay, addDays, dayKey, fromWallTime, toWallTime } from '../../utils/datetime';
+import { CalendarSource, SlotCheck, SlotRejection, SlotTakenError } from './types';
+
+export interface OpenSlotQuery {
+  /** Only slots at or after this instant (never earlier than the notice period allows). */
+  from?: Date;
+  /** Only slots on this day. */
+  day?: CalendarDay;
+  limit?: number;
+}
+
+export interface Scheduler {
+  config: ScheduleConfig;
+  /** Why the office is closed on `day`, or null on a working day. */
+  closedReason: (day: CalendarDay) => 'holiday' | 'closed_day' | null;
+  /** Checks a meeting starting at `start`; rejections come with the nearest open slots. */
+  checkSlot: (start: Date) => Promise<SlotCheck>;
+  openSlots: (query?: OpenSlotQuery) => Promise<Date[]>;
+  /**
+   * Checks `start` again and holds it in the calendar so it is not offered again.
+   * A slot someone else took since it was offered comes back rejected as `taken`.
+   */
+  reserve: (start: Date, label?: string) => Promise<SlotCheck>;
+  /** Keeps a slot `reserve` held once the booking is logged. */
+  confirm: (slot: { start: Date; end: Date }) => Promise<void>;
+  /** Frees a slot `reserve` held, so a booking that failed to log does not block it. */
+  release: (slot: { start: Date; end: Date }) => Promise<void>;
+}
+
+const toMinutes = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+};
+
+const weekdayOf = (day: CalendarDay) => new Date(Date.UTC(day.year, day.month - 1, day.day)).getUTCDay();
+
+export function createScheduler(
+  config: ScheduleConfig,
+  source: CalendarSource,
+  now: () => Date = () => new Date(),
+): Scheduler {
+  const { timeZone } = config;
+  const openAt = toMinutes(config.open);
+  const closeAt = toMinutes(config.close);
+  const meetingMs = config.meetingMinutes * 60000;
+
+  const closedReason = (day: CalendarDay) => {
+    const key = dayKey(day);
+    if (config.holidays.includes(key) || config.holidays.includes(key.slice(5))) return 'holiday';
+    if (!config.days.includes(weekdayOf(day))) return 'closed_day';
+    return null;
+  };
+
+  const earliest = () => new Date(now().getTime() + config.minNoticeMinutes * 60000);
+  const horizonEnd = () => fromWallTime({ ...addDays(toWallTime(now(), timeZone), config.horizonDays), hour: 0, minute: 0 }, timeZone);
+
+  const slotsOn = (day: CalendarDay): Date[] => {
+    if (closedReason(day)) return [];
+    const out: Date[] = [];
+    for (let t = openAt; t + config.meetingMinutes <= closeAt; t += config.slotMinutes) {
+      out.push(fromWallTime({ ...day, hour: Math.floor(t / 60), minute: t % 60 }, timeZone));
+    }
+    return out;
+  };
+
+  const openSlots = async ({ from, day, limit = 5 }: OpenSlotQuery = {}): Promise<Date[]> => {
+    const notBefore = Math.max(from?.getTime() ?? 0, earliest().getTime());
+    const end = horizonEnd();
+    if (notBefore >= end.getTime()) return [];
+
+    const firstDay = toWallTime(new Date(notBefore), timeZone);
+    const days = day ? [day] : Array.from({ length: config.horizonDays + 1 }, (_, i) => addDays(firstDay, i));
+    const candidates = days
+      .flatMap(slotsOn)
+      .filter(s => s.getTime() >= notBefore && s.getTime() < end.getTime());
+    if (!candidates.length) return [];
+
+    const taken = await source.busy(candidates[0], new Date(candidates[candidates.length - 1].getTime() + meetingMs));
+    const free: Date[] = [];
+    for (const slot of candidates) {
+      const slotEnd = slot.getTime() + meetingMs;
+      if (taken.some(b => b.start.getTime() < slotEnd && b.end.getTime() > slot.getTime())) continue;
+      free.push(slot);
+      if (free.length >= limit) break;
+    }
+    return free;
+  };
+
+  const rejection = async (start: Date): Promise<SlotRejection | null> => {
+    if (start.getTime() < now().getTime()) return 'past';
+    if (start.getTime() < earliest().getTime()) return 'too_soon';
+    if (start.getTime() >= horizonEnd().getTime()) return 'too_far';
+    const wall = toWallTime(start, timeZone);
+    const closed = closedReason(wall);
+    if (closed) return closed;
+    const minutes = wall.hour * 60 + wall.minute;
+    if (minutes < openAt || minutes + config.meetingMinutes > closeAt) return 'outside_hours';
+    const taken = await source.busy(start, new Date(start.getTime() + meetingMs));
+    return taken.length ? 'taken' : null;
+  };
+
+  const checkSlot = async (start: Date): Promise<SlotCheck> => {
+    const reason = await rejection(start);
+    if (!reason) return { ok: true, start, end: new Date(start.getTime() + meetingMs) };
+    const alternatives = await openSlots({ from: reason === 'too_far' ? undefined : start, limit: 3 });
+    return { ok: false, reason, alternatives };
+  };
+
+  return {
+    config,
+    closedReason,
+    openSlots,
+    checkSlot,
+    reserve: async (start, label) => {
+      if (!source.reserve) throw new Error(`The ${source.name} calendar is read-only; bookings cannot be held.`);
+      const slot = await checkSlot(start);
+      if (slot.ok === false) return slot;
+      try {
+        await source.reserve({ start, end: slot.end, label });
+        return slot;
+      } catch (e) {
+        if (!(e instanceof SlotTakenError)) throw e;
+        return { ok: false, reason: 'taken', alternatives: await openSlots({ from: start, limit: 3 }) };
+      }
+    },
+    confirm: async ({ start, end }) => {
+      await source.confirm?.({ start, end });
+    },
+    release: async ({ start, end }) => {
+      await source.release?.({ start, end });
+    },
+  };
+}
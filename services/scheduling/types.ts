@@ -0,0 +1,35 @@
+export interface BusyInterval {
+  start: Date;
+  end: Date;
+  /** Event title, for logs only; never read back to callers. */
+  label?: string;
+}
+
+/** Where taken time comes from. Sources without `reserve` are read-only. */
+export interface CalendarSource {
+  name: string;
+  /** Intervals that overlap [from, to). */
+  busy: (from: Date, to: Date) => Promise<BusyInterval[]>;
+  /**
+   * Holds the interval, or rejects with `SlotTakenError` when something else already overlaps it.
+   * Shared calendars let the hold lapse unless it is confirmed.
+   */
+  reserve?: (interval: BusyInterval) => Promise<void>;
+  /** Keeps a held interval for good once the booking is logged. */
+  confirm?: (interval: BusyInterval) => Promise<void>;
+  /** Frees an interval `reserve` held, e.g. when the booking could not be logged. */
+  release?: (interval: BusyInterval) => Promise<void>;
+}
+
+export class SlotTakenError extends Error {
+  constructor() {
+    super('That time is already booked.');
+    this.name = 'SlotTakenError';
+  }
+}
+
+export type SlotRejection = 'past' | 'too_soon' | 'too_far' | 'holiday' | 'closed_day' | 'outside_hours' | 'taken';
+
+export type SlotCheck =
+  | { ok: true; start: Date; end: Date }
+  | { ok: false; reason: SlotRejection; alternatives: Date[] };
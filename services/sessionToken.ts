@@ -0,0 +1,45 @@
+import { PublicProfile } from '../config/profiles';
+import { Locale } from '../i18n/locales';
+
+export interface SessionToken {
+  token: string;
+  expiresAt: string;
+  /** The profile the server locked in, after business-hours substitution. */
+  profile: PublicProfile;
+}
+
+export type SessionTokenErrorCode = 'profile_not_found' | 'rate_limited' | 'failed';
+
+/** Carries a code so the UI can show the failure in the customer's language. */
+export class SessionTokenError extends Error {
+  constructor(public readonly code: SessionTokenErrorCode, message: string) {
+    super(message);
+    this.name = 'SessionTokenError';
+  }
+}
+
+/**
+ * Asks the token server for a single-use Live API token with the profile's
+ * config locked in; `locale` picks the opening language and voice, and
+ * `withoutTools` drops tools this build cannot run.
+ */
+export async function fetchSessionToken(profileId?: string, locale?: Locale, withoutTools: string[] = []): Promise<SessionToken> {
+  const response = await fetch(`${process.env.API_BASE_URL}/api/session-token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+    body: JSON.stringify({ profile: profileId, locale, withoutTools }),
+  });
+
+  if (response.status === 404) {
+    throw new SessionTokenError('profile_not_found', 'This assistant is not available. Please check the link.');
+  }
+
+  if (response.status === 429) {
+    throw new SessionTokenError('rate_limited', 'Too many call attempts. Please wait a moment and try again.');
+  }
+  if (!response.ok) {
+    throw new SessionTokenError('failed', `Could not start a voice session (${response.status}).`);
+  }
+
+  return await response.json();
+}
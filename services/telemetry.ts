@@ -0,0 +1,135 @@
+import { CallEndReason, CallSummary, CustomerContact, MessageLog, ToolCallRecord } from '../types';
+import { ToolOutcome } from '../tools/registry';
+import { GuardrailViolation } from './guardrails';
+import { textDirection } from '../utils/transcript';
+
+const KNOWLEDGE_TOOL = 'query_knowledge_base';
+
+const TOOL_RECAP: Record<string, string> = {
+  book_meeting: 'meeting booking',
+  create_support_ticket: 'support ticket',
+  log_sales_interest: 'sales interest',
+  check_ticket_status: 'ticket status check',
+  request_human_agent: 'human agent handoff',
+};
+
+const END_RECAP: Record<CallEndReason, string> = {
+  user_hangup: 'Ended by the caller.',
+  host_end: 'Ended by the host page.',
+  connection_lost: 'Ended after the connection could not be restored.',
+  error: 'Ended by an error.',
+};
+
+export interface CallTelemetry {
+  recordToolOutcome: (outcome: ToolOutcome) => void;
+  recordError: (message: string) => void;
+  recordReconnect: () => void;
+  recordGuardrailViolation: (violation: GuardrailViolation) => void;
+  /** Builds the summary; turns and language come from the final transcript. */
+  finish: (reason: CallEndReason, messages: MessageLog[], contact: CustomerContact) => CallSummary;
+}
+
+function detectLanguage(messages: MessageLog[]): CallSummary['language'] {
+  let ar = 0;
+  let en = 0;
+  for (const m of messages) {
+    if (m.role !== 'user' || !m.text.trim()) continue;
+    if (textDirection(m.text) === 'rtl') ar++;
+    else en++;
+  }
+  if (!ar && !en) return 'unknown';
+  if (ar && en) return ar / (ar + en) >= 0.8 ? 'ar' : en / (ar + en) >= 0.8 ? 'en' : 'mixed';
+  return ar ? 'ar' : 'en';
+}
+
+function formatDuration(sec: number): string {
+  return sec < 60 ? `${sec}-second` : `${Math.round(sec / 60)}-minute`;
+}
+
+const LANGUAGE_NAMES: Record<CallSummary['language'], string> = {
+  ar: 'in Arabic',
+  en: 'in English',
+  mixed: 'in Arabic and English',
+  unknown: 'with no recognized speech',
+};
+
+/** A one-paragraph recap for supervisors, built from the facts alone. */
+export function buildRecap(summary: Omit<CallSummary, 'recap'>, messages: MessageLog[]): string {
+  const parts = [`${formatDuration(summary.durationSec)} call ${LANGUAGE_NAMES[summary.language]}.`];
+
+  const firstAsk = messages.find(m => m.role === 'user' && m.text.trim());
+  if (firstAsk) {
+    const text = firstAsk.text.trim();
+    parts.push(`Opened with: "${text.length > 80 ? `${text.slice(0, 77)}...` : text}".`);
+  }
+
+  const questions = summary.toolCalls.filter(t => t.name === KNOWLEDGE_TOOL).length;
+  if (questions) parts.push(`${questions} knowledge-base ${questions === 1 ? 'lookup' : 'lookups'}.`);
+
+  const actions = summary.toolCalls
+    .filter(t => TOOL_RECAP[t.name])
+    .map(t => `${TOOL_RECAP[t.name]} ${t.ok ? `(${t.outcome}${t.reference ? `, ref ${t.reference}` : ''})` : 'failed'}`);
+  parts.push(actions.length ? `Actions: ${actions.join(', ')}.` : 'No actions logged.');
+
+  const breaches = Object.entries(summary.guardrailViolations).map(([rule, n]) => `${rule} x${n}`);
+  if (breaches.length) parts.push(`Guardrail breaches: ${breaches.join(', ')}.`);
+  if (summary.reconnects) parts.push(`Reconnected ${summary.reconnects} time(s).`);
+  parts.push(END_RECAP[summary.endReason]);
+  return parts.join(' ');
+}
+
+export function createCallTelemetry(sessionId: string, callNumber: number, now = () => Date.now()): CallTelemetry {
+  const startedAt = now();
+  const toolCalls: ToolCallRecord[] = [];
+  const errors: string[] = [];
+  const guardrailViolations: Record<string, number> = {};
+  let reconnects = 0;
+
+  return {
+    recordToolOutcome: outcome => {
+      const { status, reference } = (outcome.result as { status?: string; reference?: string } | null | undefined) ?? {};
+      toolCalls.push({
+        name: outcome.name,
+        ok: !outcome.error,
+        outcome: outcome.error ? outcome.error.code : status || 'ok',
+        reference,
+        durationMs: outcome.durationMs,
+        at: new Date(now()).toISOString(),
+      });
+    },
+    recordError: message => { errors.push(message); },
+    recordReconnect: () => { reconnects++; },
+    recordGuardrailViolation: violation => {
+      guardrailViolations[violation.ruleId] = (guardrailViolations[violation.ruleId] || 0) + 1;
+    },
+    finish: (reason, messages, contact) => {
+      const endedAt = now();
+      const spoken = messages.filter(m => m.text.trim());
+      const latencies = toolCalls.filter(t => t.name === KNOWLEDGE_TOOL).map(t => t.durationMs);
+      const summary: Omit<CallSummary, 'recap'> = {
+        sessionId,
+        callNumber,
+        startedAt: new Date(startedAt).toISOString(),
+        endedAt: new Date(endedAt).toISOString(),
+        durationSec: Math.round((endedAt - startedAt) / 1000),
+        endReason: reason,
+        language: detectLanguage(spoken),
+        turns: {
+          user: spoken.filter(m => m.role === 'user').length,
+          assistant: spoken.filter(m => m.role === 'assistant').length,
+        },
+        toolCalls: [...toolCalls],
+        knowledgeLatencyMs: {
+          count: latencies.length,
+          avg: latencies.length ? Math.round(latencies.reduce((a, b) => a + b, 0) / latencies.length) : 0,
+          max: latencies.length ? Math.max(...latencies) : 0,
+        },
+        reconnects,
+        errors: [...errors],
+        guardrailViolations: { ...guardrailViolations },
+        contact: { ...contact },
+      };
+      return { ...summary, recap: buildRecap(summary, spoken) };
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createActionDelivery } from '../services/actionDelivery';
+import { createMemoryOutboxStore, createOutboxStore, OutboxEntry } from '../services/outboxStore';
+
+const entry = (id: string): OutboxEntry => ({ id, body: { topic: 'x' }, attempts: 0, createdAt: 0, nextAttemptAt: 0 });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('outbox store', () => {
+  it('keeps actions in memory when IndexedDB cannot be opened', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubGlobal('indexedDB', { open: () => { throw new DOMException('Storage is blocked.', 'SecurityError'); } });
+    const store = createOutboxStore('test');
+
+    await store.put(entry('a'));
+    expect((await store.all()).map(e => e.id)).toEqual(['a']);
+    await store.remove('a');
+    expect(await store.all()).toEqual([]);
+  });
+});
+
+describe('action delivery', () => {
+  it('reports a confirmed action as confirmed even if clearing it from the outbox fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(Response.json({ ok: true }));
+    const store = { ...createMemoryOutboxStore(), remove: () => Promise.reject(new Error('disk full')) };
+    const delivery = createActionDelivery({ url: 'https://api.test/actions', mode: 'cors', store });
+
+    await expect(delivery.deliver({ topic: 'x' })).resolves.toMatchObject({ status: 'confirmed' });
+  });
+
+  it('still queues a failed send when the outbox cannot be written', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(globalThis, 'fetch').mockRejectedValue(new TypeError('Failed to fetch'));
+    const store = { ...createMemoryOutboxStore(), put: () => Promise.reject(new Error('disk full')) };
+    const delivery = createActionDelivery({ url: 'https://api.test/actions', mode: 'cors', store });
+
+    await expect(delivery.deliver({ topic: 'x' })).resolves.toMatchObject({ status: 'queued' });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { PROCESSOR_SOURCE } from '../utils/audioCapture';
+
+/** Loads the worklet source the way the audio thread would, at `deviceRate`. */
+function createProcessor(deviceRate: number) {
+  let Processor: any;
+  class AudioWorkletProcessor {
+    port = { chunks: [] as Int16Array[], postMessage(buffer: ArrayBuffer) { this.chunks.push(new Int16Array(buffer)); } };
+  }
+  new Function('AudioWorkletProcessor', 'sampleRate', 'registerProcessor', PROCESSOR_SOURCE)(
+    AudioWorkletProcessor,
+    deviceRate,
+    (_: string, cls: unknown) => { Processor = cls; },
+  );
+  return new Processor({ processorOptions: { targetRate: 16000, chunkSamples: 640 } });
+}
+
+/** Feeds one second of a sine in 128-sample render quanta and returns the 16 kHz output. */
+function captureTone(deviceRate: number, hz: number) {
+  const processor = createProcessor(deviceRate);
+  for (let start = 0; start < deviceRate; start += 128) {
+    const block = new Float32Array(128).map((_, i) => 0.5 * Math.sin((2 * Math.PI * hz * (start + i)) / deviceRate));
+    processor.process([[block]]);
+  }
+  return Int16Array.from(processor.port.chunks.flatMap((c: Int16Array) => [...c]));
+}
+
+const peak = (pcm: Int16Array) => pcm.slice(320).reduce((max, s) => Math.max(max, Math.abs(s)), 0) / 32768;
+
+describe('capture worklet', () => {
+  it('keeps speech-band tones at 16 kHz and their level', () => {
+    const out = captureTone(48000, 1000);
+    expect(out.length).toBeGreaterThanOrEqual(15360);
+    expect(peak(out)).toBeGreaterThan(0.45);
+  });
+
+  it('filters out tones above 8 kHz instead of folding them into the speech band', () => {
+    expect(peak(captureTone(48000, 12000))).toBeLessThan(0.02);
+    expect(peak(captureTone(44100, 10000))).toBeLessThan(0.05);
+  });
+
+  it('interpolates smoothly across render-quantum boundaries', () => {
+    const out = captureTone(44100, 440);
+    let maxJump = 0;
+    for (let i = 321; i < out.length; i++) maxJump = Math.max(maxJump, Math.abs(out[i] - out[i - 1]));
+    // A 440 Hz tone at half scale moves at most 2*pi*440/16000*0.5 of full scale per sample.
+    expect(maxJump / 32768).toBeLessThan(0.09);
+  });
+});
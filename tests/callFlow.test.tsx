@@ -0,0 +1,334 @@
+import type { Tool } from '@google/genai';
+import { describe, expect, it, vi } from 'vitest';
+import { act, fireEvent, screen, waitFor } from '@testing-library/react';
+import { FakeLiveSession, fakeLive } from './harness/fakeLiveApi';
+import { fakeMedia } from './harness/media';
+import { activeCapture, playbackContext } from './harness/webAudio';
+import { mockActionLog, mockAgentQueue, stubTokenServer } from './harness/backend';
+import { renderApp, startCall } from './harness/renderApp';
+import {
+  audioChunk,
+  inputTranscript,
+  interrupted,
+  outputTranscript,
+  resumptionUpdate,
+  toolCall,
+  turnComplete,
+} from './harness/serverMessages';
+
+vi.mock('@google/genai', async importOriginal => {
+  const { withFakeLive } = await import('./harness/fakeLiveApi');
+  return withFakeLive(await importOriginal<object>());
+});
+
+/** The tools the session runs with, after the token's locked config. */
+const toolNames = (session: FakeLiveSession) =>
+  (session.params.config?.tools?.[0] as Tool | undefined)?.functionDeclarations?.map(d => d.name);
+
+/** A 40 ms capture chunk of a loud tone, well above the VAD threshold. */
+function speechFrame(): Int16Array {
+  const pcm = new Int16Array(640);
+  for (let i = 0; i < pcm.length; i++) pcm[i] = Math.round(Math.sin((2 * Math.PI * 200 * i) / 16000) * 12000);
+  return pcm;
+}
+
+describe('call setup', () => {
+  it('connects with the token server profile and asks for the greeting', async () => {
+    const { requests } = stubTokenServer();
+    const session = await startCall();
+
+    expect(requests).toEqual([{ profile: undefined, locale: 'en', withoutTools: ['set_recording_consent'] }]);
+    expect(session.apiKey).toBe('fake-token-1');
+    expect(session.params.config?.realtimeInputConfig?.automaticActivityDetection?.disabled).toBe(true);
+    // The persona and tools come from the token, not from what the app passed.
+    expect(session.requested.config?.systemInstruction).toBeUndefined();
+    expect(String(session.params.config?.systemInstruction)).toContain('Riyadah');
+    expect(toolNames(session)).toContain('request_human_agent');
+    const greeting = session.clientContents().at(-1);
+    expect(greeting?.turnComplete).toBe(true);
+    expect(greeting?.turns).toContain('Greet the customer now');
+  });
+
+  it('shows a localized error when the token server rate-limits', async () => {
+    stubTokenServer({ status: 429 });
+    renderApp();
+    fireEvent.click(screen.getByRole('button', { name: 'Start Interaction' }));
+
+    await screen.findByText('Too many call attempts. Please wait a moment and try again.');
+    expect(fakeLive.sessions).toHaveLength(0);
+  });
+
+  it('falls back to text mode when the microphone is denied', async () => {
+    stubTokenServer();
+    fakeMedia.denyWith = 'NotAllowedError';
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const session = await startCall();
+
+    expect(screen.getByText('Microphone access was denied. You can keep going by typing.')).toBeTruthy();
+    expect(session.clientContents().some(c => String(c.turns).includes('text chat'))).toBe(true);
+  });
+});
+
+describe('audio playback', () => {
+  it('queues chunks back to back on the output clock', async () => {
+    stubTokenServer();
+    const session = await startCall();
+    const ctx = playbackContext();
+
+    await act(() => session.replay([audioChunk(500), audioChunk(250)]));
+    ctx.advance(0.6);
+    await act(() => session.receive(audioChunk(100)));
+
+    expect(ctx.startedSources.map(s => s.startedAt)).toEqual([0, 0.5, 0.75]);
+  });
+
+  it('starts at the current time after a gap', async () => {
+    stubTokenServer();
+    const session = await startCall();
+    const ctx = playbackContext();
+
+    await act(() => session.receive(audioChunk(200)));
+    ctx.advance(2);
+    await act(() => session.receive(audioChunk(200)));
+
+    expect(ctx.startedSources.map(s => s.startedAt)).toEqual([0, 2]);
+  });
+
+  it('stops queued audio on interruption and restarts from the current time', async () => {
+    stubTokenServer();
+    const session = await startCall();
+    const ctx = playbackContext();
+
+    await act(() => session.replay([audioChunk(500), audioChunk(500), audioChunk(500)]));
+    ctx.advance(0.2);
+    await act(() => session.receive(interrupted()));
+
+    expect(ctx.startedSources.every(s => s.stopped)).toBe(true);
+    await act(() => session.receive(audioChunk(100)));
+    expect(ctx.startedSources.at(-1)?.startedAt).toBe(0.2);
+  });
+});
+
+describe('transcripts', () => {
+  it('streams both sides and finalizes on turn complete', async () => {
+    stubTokenServer();
+    const session = await startCall();
+
+    await act(() => session.replay([
+      inputTranscript('I need help '),
+      inputTranscript('with my router'),
+      outputTranscript('Of course, '),
+      outputTranscript('let me check.'),
+      turnComplete(),
+    ]));
+
+    expect(screen.getByText('I need help with my router')).toBeTruthy();
+    expect(screen.getByText('Of course, let me check.')).toBeTruthy();
+  });
+
+  it('sends a correction when the assistant breaks a guardrail', async () => {
+    stubTokenServer();
+    const session = await startCall();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await act(() => session.receive(outputTranscript('Welcome to Riyada, how can I help?')));
+
+    const correction = session.clientContents().at(-1);
+    expect(correction?.turnComplete).toBe(false);
+    expect(correction?.turns).toContain('Riyadah');
+  });
+});
+
+describe('tool calls', () => {
+  it('runs the tool against the backend and returns its response with the call id', async () => {
+    stubTokenServer();
+    const session = await startCall();
+    const logged = mockActionLog().log.length;
+
+    await act(() => session.receive(toolCall({
+      id: 'call-1',
+      name: 'create_support_ticket',
+      args: { name: 'Mona Adel', phone: '01001234567', email: 'mona@example.com', type: 'Support', description: 'The office network is down.' },
+    })));
+
+    await waitFor(() => expect(session.toolResponses()).toHaveLength(1));
+    const [response] = session.toolResponses()[0].functionResponses as any[];
+    expect(response).toMatchObject({ id: 'call-1', name: 'create_support_ticket' });
+    expect(response.response).toHaveProperty('result');
+    expect(mockActionLog().log.slice(logged)).toMatchObject([{ clientName: 'Mona Adel', messageType: 'Support Ticket' }]);
+  });
+
+  it('answers invalid arguments with field errors instead of calling the backend', async () => {
+    stubTokenServer();
+    const session = await startCall();
+    const logged = mockActionLog().log.length;
+
+    await act(() => session.receive(toolCall({ id: 'call-2', name: 'create_support_ticket', args: { name: 'Mona' } })));
+
+    await waitFor(() => expect(session.toolResponses()).toHaveLength(1));
+    const [response] = session.toolResponses()[0].functionResponses as any[];
+    expect(response.response.error.code).toBe('INVALID_ARGUMENTS');
+    expect(mockActionLog().log.length).toBe(logged);
+  });
+
+  it('reports unknown tools as errors', async () => {
+    stubTokenServer();
+    const session = await startCall();
+
+    await act(() => session.receive(toolCall({ id: 'call-3', name: 'launch_rocket', args: {} })));
+
+    await waitFor(() => expect(session.toolResponses()).toHaveLength(1));
+    const [response] = session.toolResponses()[0].functionResponses as any[];
+    expect(response).toMatchObject({ id: 'call-3', response: { error: { code: 'UNKNOWN_TOOL' } } });
+  });
+
+  it('asks for a phone number before requesting a callback', async () => {
+    stubTokenServer();
+    const session = await startCall();
+    const callbacks = mockAgentQueue().callbacks.length;
+
+    await act(() => session.receive(toolCall({
+      id: 'call-6', name: 'request_human_agent', args: { reason: 'Billing question.', preference: 'callback' },
+    })));
+
+    await waitFor(() => expect(session.toolResponses()).toHaveLength(1));
+    const [response] = session.toolResponses()[0].functionResponses as any[];
+    expect(response.response.error).toMatchObject({ code: 'INVALID_ARGUMENTS', fields: [{ field: 'phone' }] });
+    expect(mockAgentQueue().callbacks.length).toBe(callbacks);
+  });
+
+  it('offers a person after repeated failures, once the failed call has its response', async () => {
+    stubTokenServer();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(mockActionLog(), 'logAction').mockRejectedValue(new Error('Sheet unavailable.'));
+    const session = await startCall();
+    const args = { name: 'Mona Adel', phone: '01001234567', email: 'mona@example.com', type: 'Support', description: 'Network down.' };
+
+    await act(() => session.replay([
+      toolCall({ id: 'call-4', name: 'create_support_ticket', args }),
+      toolCall({ id: 'call-5', name: 'create_support_ticket', args }),
+    ]));
+
+    await waitFor(() => expect(session.toolResponses()).toHaveLength(2));
+    const last = session.sent.slice(-2);
+    expect(last[0].kind).toBe('toolResponse');
+    expect(last[1]).toMatchObject({ kind: 'clientContent', params: { turnComplete: false } });
+    expect(String((last[1].params as any).turns)).toContain('request_human_agent');
+  });
+
+  it('leaves the handoff tool out when the build has no escalation endpoint', async () => {
+    vi.stubEnv('HANDOFF_ADAPTER', 'rest');
+    vi.stubEnv('HANDOFF_URL', '');
+    const { requests } = stubTokenServer();
+    await startCall();
+
+    expect(requests[0].withoutTools).toEqual(['request_human_agent', 'set_recording_consent']);
+    expect(toolNames(fakeLive.current())).not.toContain('request_human_agent');
+    expect(String(fakeLive.current().params.config?.systemInstruction)).toContain('hotline');
+  });
+});
+
+describe('microphone input', () => {
+  it('marks speech with activity start and streams it as 16 kHz PCM', async () => {
+    stubTokenServer();
+    const session = await startCall();
+    await waitFor(() => activeCapture());
+
+    for (let i = 0; i < 5; i++) activeCapture().capture(speechFrame());
+
+    const inputs = session.realtimeInputs();
+    expect(inputs[0]).toEqual({ activityStart: {} });
+    expect(inputs.slice(1).every(i => i.media?.mimeType === 'audio/pcm;rate=16000')).toBe(true);
+  });
+
+  it('closes the open turn when the customer switches to text', async () => {
+    stubTokenServer();
+    const session = await startCall();
+    await waitFor(() => activeCapture());
+    activeCapture().capture(speechFrame());
+
+    fireEvent.click(screen.getByRole('radio', { name: 'Text' }));
+
+    await waitFor(() => expect(session.realtimeInputs().at(-1)).toEqual({ activityEnd: {} }));
+    expect(fakeMedia.streams[0].getTracks()[0].readyState).toBe('ended');
+  });
+});
+
+describe('reconnection', () => {
+  it('resumes with the last handle after the socket drops', async () => {
+    stubTokenServer();
+    const session = await startCall();
+    await act(() => session.receive(resumptionUpdate('handle-1')));
+
+    act(() => session.drop());
+    expect(screen.getByText('reconnecting')).toBeTruthy();
+
+    await waitFor(() => expect(fakeLive.sessions).toHaveLength(2), { timeout: 3000 });
+    // A fresh single-use token; the handle is not locked, so the client's value stands.
+    expect(fakeLive.current().apiKey).toBe('fake-token-2');
+    expect(fakeLive.current().params.config?.sessionResumption?.handle).toBe('handle-1');
+    await waitFor(() => expect(screen.getByText('connected')).toBeTruthy());
+  });
+
+  it('re-seeds a fresh session with validated contact details only', async () => {
+    stubTokenServer();
+    const session = await startCall();
+    const ticket = { name: 'Mona Adel', email: 'mona@example.com', type: 'Support', description: 'The office network is down.' };
+    await act(() => session.receive(toolCall({ id: 'call-1', name: 'create_support_ticket', args: { ...ticket, phone: '0100 99' } })));
+    await waitFor(() => expect(session.toolResponses()).toHaveLength(1));
+    await act(() => session.receive(toolCall({ id: 'call-2', name: 'create_support_ticket', args: { ...ticket, phone: '010 0123 4567' } })));
+    await waitFor(() => expect(session.toolResponses()).toHaveLength(2));
+
+    act(() => session.drop());
+    await waitFor(() => expect(fakeLive.sessions).toHaveLength(2), { timeout: 3000 });
+    await waitFor(() => expect(fakeLive.current().clientContents()).toHaveLength(1));
+
+    const seed = JSON.stringify(fakeLive.current().clientContents()[0].turns);
+    expect(seed).toContain('phone: +201001234567');
+    expect(seed).not.toContain('0100 99');
+  });
+});
+
+describe('call recording', () => {
+  it('is off unless enabled', async () => {
+    stubTokenServer();
+    const session = await startCall();
+
+    expect(screen.queryByRole('dialog', { name: 'Record this call?' })).toBeNull();
+    expect(session.clientContents().some(c => String(c.turns).includes('set_recording_consent'))).toBe(false);
+    expect(toolNames(session)).not.toContain('set_recording_consent');
+    expect(String(session.params.config?.systemInstruction)).not.toContain('hotline (+2) 0155-155-3285 instead');
+  });
+
+  it('asks first, records after on-screen consent and offers the file when the call ends', async () => {
+    vi.stubEnv('RECORDING_ENABLED', 'true');
+    stubTokenServer();
+    const session = await startCall();
+
+    expect(screen.getByRole('dialog', { name: 'Record this call?' })).toBeTruthy();
+    expect(session.clientContents().some(c => String(c.turns).includes('set_recording_consent'))).toBe(true);
+    expect(toolNames(session)).toContain('set_recording_consent');
+    fireEvent.click(screen.getByRole('button', { name: 'Allow recording' }));
+
+    expect(screen.getByRole('status').textContent).toBe('Recording');
+    expect(session.clientContents().at(-1)?.turns).toContain('agreed on screen');
+    await act(() => session.receive(audioChunk(200)));
+    fireEvent.click(screen.getByRole('button', { name: 'End Conversation' }));
+
+    const link = await screen.findByRole('link', { name: 'Download recording' });
+    expect(link.getAttribute('download')).toMatch(/^riyadah-call-.+-1\.wav$/);
+  });
+
+  it('records nothing when the customer declines out loud', async () => {
+    vi.stubEnv('RECORDING_ENABLED', 'true');
+    stubTokenServer();
+    const session = await startCall();
+
+    await act(() => session.receive(toolCall({ id: 'call-4', name: 'set_recording_consent', args: { consent: false } })));
+
+    await waitFor(() => expect(screen.queryByRole('dialog', { name: 'Record this call?' })).toBeNull());
+    expect(screen.queryByRole('status')).toBeNull();
+    fireEvent.click(screen.getByRole('button', { name: 'End Conversation' }));
+    expect(screen.queryByRole('link', { name: 'Download recording' })).toBeNull();
+  });
+});
@@ -0,0 +1,169 @@
+import { Readable } from 'node:stream';
+import { describe, expect, it, vi } from 'vitest';
+import { RECORDING_SAMPLE_RATE, buildCallRecording, createCallRecorder } from '../services/recording';
+import { createMockRecordingStore } from '../services/adapters/mockBackend';
+import { CallSummary } from '../types';
+import { RECORDING_BYTES_PER_MINUTE } from '../config/recording';
+import { loadServerConfig } from '../server/config';
+import { PayloadTooLargeError, forwardStream } from '../server/proxy';
+
+const tone = (samples: number, value = 1000) => new Int16Array(samples).fill(value);
+
+function recorderAt(start = 10, maxSeconds = 60) {
+  let now = start;
+  const recorder = createCallRecorder({ clock: () => now, maxSeconds });
+  return { recorder, setNow: (t: number) => { now = t; } };
+}
+
+/** Left and right samples of the data chunk. */
+function channels(wav: Uint8Array) {
+  const view = new DataView(wav.buffer, wav.byteOffset);
+  const frames = view.getUint32(40, true) / 4;
+  const left = new Int16Array(frames);
+  const right = new Int16Array(frames);
+  for (let i = 0; i < frames; i++) {
+    left[i] = view.getInt16(44 + i * 4, true);
+    right[i] = view.getInt16(46 + i * 4, true);
+  }
+  return { view, left, right };
+}
+
+const at = (sec: number) => Math.round(sec * RECORDING_SAMPLE_RATE);
+
+describe('call recorder', () => {
+  it('writes a stereo 24 kHz WAV with the caller left and the assistant right', () => {
+    const { recorder, setNow } = recorderAt();
+    recorder.addAssistant(tone(at(0.5), 2000), 10.5);
+    setNow(10.04);
+    recorder.addCaller(tone(640, 1000));
+    setNow(12);
+
+    const audio = recorder.finish();
+    const { view, left, right } = channels(audio.wav);
+    expect(String.fromCharCode(...audio.wav.subarray(0, 4))).toBe('RIFF');
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(24000);
+    expect(audio.durationSec).toBe(1);
+    expect(left[0]).toBe(1000);
+    expect(left[at(0.04)]).toBe(0);
+    expect(right[at(0.5) - 1]).toBe(0);
+    expect(right[at(0.5)]).toBe(2000);
+  });
+
+  it('places caller chunks back to back despite delivery jitter, and leaves real gaps', () => {
+    const { recorder, setNow } = recorderAt(0);
+    setNow(0.04);
+    recorder.addCaller(tone(640));
+    setNow(0.1);
+    recorder.addCaller(tone(640, 3000));
+    setNow(2);
+    recorder.addCaller(tone(640, 5000));
+
+    const { left } = channels(recorder.finish().wav);
+    expect(left[at(0.04)]).toBe(3000);
+    expect(left[at(0.08)]).toBe(0);
+    expect(left[at(1.96)]).toBe(5000);
+  });
+
+  it('drops assistant audio that was interrupted before it played', () => {
+    const { recorder, setNow } = recorderAt(0);
+    recorder.addAssistant(tone(at(1)), 0);
+    recorder.addAssistant(tone(at(1)), 1);
+    recorder.cutAssistant(0.5);
+    setNow(3);
+
+    const audio = recorder.finish();
+    expect(audio.durationSec).toBe(0.5);
+  });
+
+  it('cuts audio still queued when the call ends', () => {
+    const { recorder, setNow } = recorderAt(0);
+    recorder.addAssistant(tone(at(2)), 0);
+    setNow(1);
+    expect(recorder.finish().durationSec).toBe(1);
+  });
+
+  it('takes the bytes per minute the upload limit is sized from', () => {
+    const { recorder, setNow } = recorderAt(0, 120);
+    recorder.addAssistant(tone(at(60)), 0);
+    setNow(60);
+    expect(recorder.finish().wav.length - 44).toBe(RECORDING_BYTES_PER_MINUTE);
+  });
+
+  it('fits a recording of the maximum length under the token server\'s default upload limit', () => {
+    const { recordingMaxBytes } = loadServerConfig({ GEMINI_API_KEY: 'key', RECORDING_MAX_MINUTES: '8' });
+    expect(recordingMaxBytes).toBeGreaterThan(8 * RECORDING_BYTES_PER_MINUTE);
+    expect(recordingMaxBytes).toBeLessThan(9 * RECORDING_BYTES_PER_MINUTE);
+    expect(loadServerConfig({ GEMINI_API_KEY: 'key', RECORDING_MAX_UPLOAD_MB: '50' }).recordingMaxBytes).toBe(50 * 1024 * 1024);
+  });
+
+  it('stops at the maximum length and says so', () => {
+    const { recorder, setNow } = recorderAt(0, 1);
+    recorder.addAssistant(tone(at(3)), 0.5);
+    setNow(4);
+    const audio = recorder.finish();
+    expect(audio.truncated).toBe(true);
+    expect(audio.durationSec).toBe(1);
+  });
+});
+
+describe('call recording', () => {
+  const summary = {
+    sessionId: 'sess_1',
+    callNumber: 2,
+    toolCalls: [{ name: 'create_support_ticket', ok: true, outcome: 'delivered', durationMs: 40, at: '2026-03-01T10:00:05.000Z' }],
+    recap: '1-minute call in English.',
+  } as CallSummary;
+
+  it('puts the transcript and tool log on the audio timeline and sets the expiry', () => {
+    const { recorder } = recorderAt(0);
+    const recording = buildCallRecording(recorder.finish(), {
+      summary,
+      messages: [
+        { role: 'assistant', text: 'Hello', timestamp: new Date('2026-03-01T09:59:58Z'), isFinal: true },
+        { role: 'user', text: 'Hi', timestamp: new Date('2026-03-01T10:00:02.500Z'), isFinal: true },
+      ],
+      consent: { method: 'spoken', at: '2026-03-01T10:00:00.000Z' },
+      startedAtMs: Date.parse('2026-03-01T10:00:00Z'),
+      retentionDays: 30,
+    });
+
+    expect(recording.transcript.map(m => m.offsetSec)).toEqual([-2, 2.5]);
+    expect(recording.toolCalls[0].offsetSec).toBe(5);
+    expect(recording.expiresAt).toBe('2026-03-31T10:00:00.000Z');
+    expect(recording.audio.type).toBe('audio/wav');
+  });
+
+  it('is deleted from the mock store once it expires', async () => {
+    let now = new Date('2026-03-01T10:00:00Z');
+    const store = createMockRecordingStore(() => now);
+    const recording = buildCallRecording(recorderAt(0).recorder.finish(), {
+      summary,
+      messages: [],
+      consent: { method: 'on_screen', at: now.toISOString() },
+      startedAtMs: now.getTime(),
+      retentionDays: 1,
+    });
+
+    expect(await store.uploadRecording(recording)).toEqual({ id: 'REC-0001' });
+    now = new Date('2026-03-02T10:00:01Z');
+    expect(store.purgeExpired()).toBe(1);
+    expect(store.recordings).toHaveLength(0);
+  });
+});
+
+describe('recording uploads', () => {
+  const upload = (...chunks: number[]) => Readable.from(chunks.map(n => Buffer.alloc(n)));
+
+  it('streams the upload to the store and stops once it passes the limit', async () => {
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async (_url, init) => {
+      const bytes = await new Response(init!.body).arrayBuffer();
+      return Response.json({ id: 'REC-0001', bytes: bytes.byteLength });
+    });
+
+    const stored = await forwardStream('https://store.test', upload(1000, 1000), 'multipart/form-data', 4000);
+    expect(JSON.parse(stored.body)).toEqual({ id: 'REC-0001', bytes: 2000 });
+    await expect(forwardStream('https://store.test', upload(3000, 3000), 'multipart/form-data', 4000))
+      .rejects.toBeInstanceOf(PayloadTooLargeError);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { parseBusinessDateTime, parseBusinessDay } from '../utils/datetime';
+
+// Monday 19 October 2026, 11:00 in Cairo (UTC+3 until the end of October).
+const NOW = new Date('2026-10-19T08:00:00Z');
+
+const parse = (input: string) => parseBusinessDateTime(input, NOW);
+
+describe('parseBusinessDateTime', () => {
+  it('reads relative days, weekdays and day-first dates', () => {
+    expect(parse('tomorrow at 3')).toMatchObject({ ok: true, iso: '2026-10-20T15:00:00+03:00' });
+    expect(parse('next sunday at 11 am')).toMatchObject({ ok: true, iso: '2026-10-25T11:00:00+03:00' });
+    expect(parse('21/10 14:30')).toMatchObject({ ok: true, iso: '2026-10-21T14:30:00+03:00' });
+    expect(parse('بكرة الساعة ١١ ص')).toMatchObject({ ok: true, iso: '2026-10-20T11:00:00+03:00' });
+  });
+
+  it('takes dotted numbers as times unless they carry a year', () => {
+    expect(parse('tomorrow at 3.30')).toMatchObject({ ok: true, iso: '2026-10-20T15:30:00+03:00' });
+    expect(parse('sunday 10.30')).toMatchObject({ ok: true, iso: '2026-10-25T10:30:00+03:00' });
+    expect(parse('15.11.2026 at 11 am')).toMatchObject({ ok: true, iso: '2026-11-15T11:00:00+02:00' });
+  });
+
+  it('rejects days the calendar does not have instead of rolling them over', () => {
+    expect(parse('31/2 at 3')).toEqual({ ok: false, reason: 'unrecognized' });
+    expect(parse('10/13 at 3')).toEqual({ ok: false, reason: 'unrecognized' });
+    expect(parseBusinessDay('31/11', NOW)).toEqual({ ok: false, reason: 'unrecognized' });
+  });
+
+  it('rejects impossible ISO days and times', () => {
+    expect(parse('2026-11-31 10:00')).toEqual({ ok: false, reason: 'unrecognized' });
+    expect(parse('2026-11-20T25:99')).toEqual({ ok: false, reason: 'unrecognized' });
+    expect(parse('2026-11-20T10:00+02:00')).toMatchObject({ ok: true, iso: '2026-11-20T10:00:00+02:00' });
+  });
+
+  it('moves a day-month date that has passed to next year', () => {
+    expect(parse('5/1 at 10')).toMatchObject({ ok: true, iso: '2027-01-05T10:00:00+02:00' });
+  });
+
+  it('says which part is missing, or that the time has passed', () => {
+    expect(parse('tomorrow')).toEqual({ ok: false, reason: 'missing_time' });
+    expect(parse('at 3 pm')).toEqual({ ok: false, reason: 'missing_day' });
+    expect(parse('whenever')).toEqual({ ok: false, reason: 'unrecognized' });
+    expect(parse('2026-10-01T10:00')).toEqual({ ok: false, reason: 'past' });
+  });
+});
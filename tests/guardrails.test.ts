@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_GUARDRAIL_RULES } from '../config/guardrails';
+import { evaluateRules } from '../services/guardrails';
+
+const ruleIds = (text: string) => evaluateRules(text, DEFAULT_GUARDRAIL_RULES).map(v => v.ruleId);
+
+describe('default guardrail rules', () => {
+  it.each([
+    ['أهلاً بيك في رِيَادَة، أقدر أساعدك إزاي؟'],
+    ['Welcome to Riyadah, how can I help you today?'],
+    ['We install networks, and yes, we also wired a gym once.'],
+    ['Riyadah is not a sports club.'],
+    ['رِيَادَة مش شركة رياضة، إحنا شركة تكنولوجيا.'],
+  ])('passes on-brand speech: %s', text => {
+    expect(ruleIds(text)).toEqual([]);
+  });
+
+  it.each([
+    ['أهلاً بيك في شركة الرياضة', 'brand-not-sports'],
+    ['أهلاً بيك في شركة رياضه', 'brand-not-sports'],
+    ['Riyadah is a sports club.', 'brand-not-sports'],
+    ['Riyadah is not a bank, it is a sports club.', 'brand-not-sports'],
+    ['We are not just any sports club.', 'brand-not-sports'],
+    ['لا، إحنا شركة رياضة.', 'brand-not-sports'],
+    ['Welcome to Riyada!', 'brand-spelling'],
+    ['Reyadah can help with that.', 'brand-spelling'],
+    ['Did you watch the football league last night?', 'off-topic-sports'],
+    ['المباراة في الدوري كانت حلوة', 'off-topic-sports'],
+  ])('flags %s', (text, ruleId) => {
+    expect(ruleIds(text)).toContain(ruleId);
+  });
+
+  it('puts the offending words into the correction', () => {
+    const [violation] = evaluateRules('Welcome to Riadah.', DEFAULT_GUARDRAIL_RULES);
+    expect(violation.correction).toContain('"riadah"');
+  });
+});
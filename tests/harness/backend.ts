@@ -0,0 +1,54 @@
+import { vi } from 'vitest';
+import { buildLiveConfig } from '../../config/assistant';
+import { PublicProfile, toPublicProfile } from '../../config/profiles';
+import { isLocale } from '../../i18n/locales';
+import { createProfileStore, withoutTools } from '../../server/profiles';
+import { createMockActionAdapter, createMockAgentQueue } from '../../services/adapters';
+import { getActionLogAdapter, getHandoffAdapter } from '../../services/riyadahApi';
+import { fakeLive } from './fakeLiveApi';
+
+export interface TokenRequest {
+  profile?: string;
+  locale?: string;
+  withoutTools?: string[];
+}
+
+/**
+ * Answers `/api/session-token` the way the token server does, from the real
+ * default profile, and registers the config it locks into the token with the
+ * fake Live API. Set `status` to make it fail (404, 429, 500).
+ */
+export function stubTokenServer(options: { status?: number; profile?: Partial<PublicProfile> } = {}) {
+  const requests: TokenRequest[] = [];
+  const profiles = createProfileStore('profiles');
+
+  const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+    const url = String(input instanceof Request ? input.url : input);
+    if (!url.endsWith('/api/session-token')) {
+      return new Response('Not stubbed in tests.', { status: 501 });
+    }
+    const body: TokenRequest = JSON.parse(String(init?.body ?? '{}'));
+    requests.push(body);
+    if (options.status) return new Response('{}', { status: options.status });
+    const { profile, notes } = withoutTools({ profile: await profiles.load('default'), notes: [] }, body.withoutTools ?? []);
+    const locale = isLocale(body.locale) ? body.locale : undefined;
+    const token = `fake-token-${requests.length}`;
+    fakeLive.tokens.set(token, { model: profile.model, config: buildLiveConfig(profile, notes, locale) });
+    return Response.json({
+      token,
+      expiresAt: new Date(Date.now() + 60000).toISOString(),
+      profile: { ...toPublicProfile(profile, locale), ...options.profile },
+    });
+  });
+
+  return { requests, fetchMock };
+}
+
+/** What the tools logged, through the mock actions adapter the tests run with. */
+export function mockActionLog() {
+  return getActionLogAdapter() as ReturnType<typeof createMockActionAdapter>;
+}
+
+export function mockAgentQueue() {
+  return getHandoffAdapter() as ReturnType<typeof createMockAgentQueue>;
+}
@@ -0,0 +1,146 @@
+import type {
+  LiveConnectConfig,
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+} from '@google/genai';
+
+export type SentMessage =
+  | { kind: 'clientContent'; params: LiveSendClientContentParameters }
+  | { kind: 'realtimeInput'; params: LiveSendRealtimeInputParameters }
+  | { kind: 'toolResponse'; params: LiveSendToolResponseParameters };
+
+/** What the token server locked into a token: `liveConnectConstraints`. */
+export interface LockedConstraints {
+  model: string;
+  config: LiveConnectConfig;
+}
+
+/**
+ * Stands in for a Live API session: the test plays the server with
+ * `receive`/`replay`, and everything the app sends is kept in `sent`.
+ * `params` is what the session runs with, after the token's locked fields;
+ * `requested` is what the app passed to `connect`.
+ */
+export class FakeLiveSession {
+  readonly sent: SentMessage[] = [];
+  closed = false;
+
+  constructor(readonly params: LiveConnectParameters, readonly apiKey: string, readonly requested: LiveConnectParameters = params) {}
+
+  sendClientContent(params: LiveSendClientContentParameters) {
+    this.sent.push({ kind: 'clientContent', params });
+  }
+
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters) {
+    this.sent.push({ kind: 'realtimeInput', params });
+  }
+
+  sendToolResponse(params: LiveSendToolResponseParameters) {
+    this.sent.push({ kind: 'toolResponse', params });
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  /** Delivers one server message and waits until the app's handler has finished with it. */
+  async receive(message: LiveServerMessage) {
+    await (this.params.callbacks.onmessage(message) as unknown);
+  }
+
+  /** Delivers a scripted sequence in order, each fully handled before the next. */
+  async replay(script: LiveServerMessage[]) {
+    for (const message of script) await this.receive(message);
+  }
+
+  /** The socket reports an error, as on a network failure. */
+  fail(message = 'Network error') {
+    this.params.callbacks.onerror?.(new ErrorEvent('error', { message }));
+  }
+
+  /** The server closes the socket, e.g. at the session time limit. */
+  drop(code = 1006) {
+    this.params.callbacks.onclose?.(new CloseEvent('close', { code }));
+  }
+
+  clientContents(): LiveSendClientContentParameters[] {
+    return this.sent.flatMap(m => (m.kind === 'clientContent' ? [m.params] : []));
+  }
+
+  realtimeInputs(): LiveSendRealtimeInputParameters[] {
+    return this.sent.flatMap(m => (m.kind === 'realtimeInput' ? [m.params] : []));
+  }
+
+  toolResponses(): LiveSendToolResponseParameters[] {
+    return this.sent.flatMap(m => (m.kind === 'toolResponse' ? [m.params] : []));
+  }
+}
+
+export const fakeLive = {
+  /** Every session the app opened, oldest first. */
+  sessions: [] as FakeLiveSession[],
+  /** Connect attempts left to reject, for failed reconnects. */
+  failNextConnects: 0,
+  /** Constraints per issued token, registered by the stub token server. */
+  tokens: new Map<string, LockedConstraints>(),
+  /** Tokens already used to connect; like real ones, each is single-use. */
+  usedTokens: new Set<string>(),
+
+  current(): FakeLiveSession {
+    const session = this.sessions[this.sessions.length - 1];
+    if (!session) throw new Error('The app has not opened a Live session.');
+    return session;
+  },
+
+  reset() {
+    this.sessions = [];
+    this.failNextConnects = 0;
+    this.tokens.clear();
+    this.usedTokens.clear();
+  },
+};
+
+/**
+ * Applies a token's constraints the way the API does with `lockAdditionalFields: []`:
+ * the model and every config field the token sets win; fields it leaves unset,
+ * such as the resumption handle, come from the client.
+ */
+function applyLockedConstraints(params: LiveConnectParameters, locked: LockedConstraints): LiveConnectParameters {
+  const config: LiveConnectConfig = { ...params.config };
+  for (const [field, value] of Object.entries(locked.config)) {
+    if (value !== undefined) (config as Record<string, unknown>)[field] = value;
+  }
+  return { ...params, model: locked.model, config };
+}
+
+class FakeGoogleGenAI {
+  readonly live: { connect: (params: LiveConnectParameters) => Promise<FakeLiveSession> };
+
+  constructor(options: { apiKey?: string }) {
+    this.live = {
+      // Like the SDK, onopen fires before connect resolves.
+      connect: async params => {
+        if (fakeLive.failNextConnects > 0) {
+          fakeLive.failNextConnects--;
+          throw new Error('Connection refused.');
+        }
+        const apiKey = options.apiKey ?? '';
+        if (fakeLive.usedTokens.has(apiKey)) throw new Error('Token has already been used.');
+        fakeLive.usedTokens.add(apiKey);
+        const locked = fakeLive.tokens.get(apiKey);
+        const session = new FakeLiveSession(locked ? applyLockedConstraints(params, locked) : params, apiKey, params);
+        fakeLive.sessions.push(session);
+        params.callbacks.onopen?.();
+        return session;
+      },
+    };
+  }
+}
+
+/** The `@google/genai` module with only `GoogleGenAI` swapped, for `vi.mock`. */
+export function withFakeLive<T extends object>(actual: T): T {
+  return { ...actual, GoogleGenAI: FakeGoogleGenAI };
+}
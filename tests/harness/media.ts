@@ -0,0 +1,45 @@
+class FakeMediaStreamTrack {
+  readonly kind = 'audio';
+  enabled = true;
+  muted = false;
+  readyState: 'live' | 'ended' = 'live';
+  stop() {
+    this.readyState = 'ended';
+  }
+}
+
+export class FakeMediaStream {
+  private readonly tracks = [new FakeMediaStreamTrack()];
+  getTracks() {
+    return this.tracks;
+  }
+  getAudioTracks() {
+    return this.tracks;
+  }
+}
+
+export const fakeMedia = {
+  /** A DOMException name `getUserMedia` rejects with ('NotAllowedError', 'NotFoundError'); null grants the mic. */
+  denyWith: null as string | null,
+  /** Streams handed out, oldest first. */
+  streams: [] as FakeMediaStream[],
+
+  reset() {
+    this.denyWith = null;
+    this.streams = [];
+  },
+};
+
+export function installMedia() {
+  Object.defineProperty(navigator, 'mediaDevices', {
+    configurable: true,
+    value: {
+      getUserMedia: async () => {
+        if (fakeMedia.denyWith) throw new DOMException('Microphone unavailable.', fakeMedia.denyWith);
+        const stream = new FakeMediaStream();
+        fakeMedia.streams.push(stream);
+        return stream;
+      },
+    },
+  });
+}
@@ -0,0 +1,24 @@
+import React from 'react';
+import { expect } from 'vitest';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import App from '../../App';
+import { I18nProvider } from '../../i18n/I18nProvider';
+import { FakeLiveSession, fakeLive } from './fakeLiveApi';
+
+export function renderApp() {
+  return render(
+    <I18nProvider>
+      <App />
+    </I18nProvider>,
+  );
+}
+
+/** Renders the widget, starts a call and waits for the greeting to be requested. */
+export async function startCall(): Promise<FakeLiveSession> {
+  renderApp();
+  fireEvent.click(screen.getByRole('button', { name: 'Start Interaction' }));
+  await waitFor(() => expect(screen.getByText('connected')).toBeTruthy());
+  const session = fakeLive.current();
+  await waitFor(() => expect(session.clientContents().some(c => c.turnComplete)).toBe(true));
+  return session;
+}
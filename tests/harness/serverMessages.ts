@@ -0,0 +1,25 @@
+import type { FunctionCall, LiveServerMessage } from '@google/genai';
+
+// LiveServerMessage is a class with convenience getters the app never reads,
+// so plain objects of the wire shape are enough.
+const message = (fields: object) => fields as LiveServerMessage;
+
+/** `ms` of a 24 kHz tone as the model streams it: base64 mono Int16 PCM. */
+export function audioChunk(ms: number, sampleRate = 24000): LiveServerMessage {
+  const pcm = new Int16Array(Math.round((sampleRate * ms) / 1000));
+  for (let i = 0; i < pcm.length; i++) pcm[i] = Math.round(Math.sin((2 * Math.PI * 220 * i) / sampleRate) * 8000);
+  const data = Buffer.from(pcm.buffer).toString('base64');
+  return message({ serverContent: { modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${sampleRate}`, data } }] } } });
+}
+
+export const outputTranscript = (text: string) => message({ serverContent: { outputTranscription: { text } } });
+
+export const inputTranscript = (text: string) => message({ serverContent: { inputTranscription: { text } } });
+
+export const interrupted = () => message({ serverContent: { interrupted: true } });
+
+export const turnComplete = () => message({ serverContent: { turnComplete: true } });
+
+export const toolCall = (...functionCalls: FunctionCall[]) => message({ toolCall: { functionCalls } });
+
+export const resumptionUpdate = (newHandle: string) => message({ sessionResumptionUpdate: { newHandle, resumable: true } });
@@ -0,0 +1,170 @@
+/**
+ * Just enough of Web Audio for the app to run under jsdom. Nothing is heard;
+ * the clock only moves when a test calls `advance`, so scheduling is exact.
+ */
+
+class FakeAudioNode {
+  constructor(readonly context: FakeAudioContext) {}
+  connect<T>(destination: T): T {
+    return destination;
+  }
+  disconnect() {}
+}
+
+export class FakeAudioBuffer {
+  readonly duration: number;
+  private readonly channels: Float32Array[];
+
+  constructor(readonly numberOfChannels: number, readonly length: number, readonly sampleRate: number) {
+    this.duration = length / sampleRate;
+    this.channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+  }
+
+  getChannelData(channel: number): Float32Array {
+    return this.channels[channel];
+  }
+}
+
+export class FakeBufferSource extends FakeAudioNode {
+  buffer: FakeAudioBuffer | null = null;
+  onended: (() => void) | null = null;
+  /** Context time `start` was called with; undefined until then. */
+  startedAt?: number;
+  stopped = false;
+
+  start(when = 0) {
+    this.startedAt = when;
+    this.context.startedSources.push(this);
+  }
+
+  stop() {
+    if (this.stopped) return;
+    this.stopped = true;
+    // Browsers fire `ended` asynchronously, after stop() returns.
+    queueMicrotask(() => this.onended?.());
+  }
+
+  get endsAt(): number {
+    return (this.startedAt ?? 0) + (this.buffer?.duration ?? 0);
+  }
+}
+
+class FakeGain extends FakeAudioNode {
+  readonly gain = { value: 1 };
+}
+
+class FakeAnalyser extends FakeAudioNode {
+  fftSize = 2048;
+  smoothingTimeConstant = 0.8;
+  minDecibels = -100;
+  maxDecibels = -30;
+  get frequencyBinCount() {
+    return this.fftSize / 2;
+  }
+  getByteFrequencyData(array: Uint8Array) {
+    array.fill(0);
+  }
+  getFloatTimeDomainData(array: Float32Array) {
+    array.fill(0);
+  }
+}
+
+export class FakeAudioContext {
+  static instances: FakeAudioContext[] = [];
+
+  readonly sampleRate: number;
+  currentTime = 0;
+  state: 'suspended' | 'running' | 'closed' = 'suspended';
+  readonly destination = new FakeAudioNode(this);
+  readonly audioWorklet = { addModule: async (_url: string) => {} };
+  /** Every source started on this context, in start order. */
+  readonly startedSources: FakeBufferSource[] = [];
+
+  constructor(options: { sampleRate?: number } = {}) {
+    this.sampleRate = options.sampleRate ?? 48000;
+    FakeAudioContext.instances.push(this);
+  }
+
+  async resume() {
+    this.state = 'running';
+  }
+
+  async close() {
+    this.state = 'closed';
+  }
+
+  createGain() {
+    return new FakeGain(this);
+  }
+
+  createAnalyser() {
+    return new FakeAnalyser(this);
+  }
+
+  createBuffer(channels: number, length: number, sampleRate: number) {
+    return new FakeAudioBuffer(channels, length, sampleRate);
+  }
+
+  createBufferSource() {
+    return new FakeBufferSource(this);
+  }
+
+  createMediaStreamSource(_stream: MediaStream) {
+    return new FakeAudioNode(this);
+  }
+
+  /** Moves the clock on; sources that have finished playing fire `ended`. */
+  advance(seconds: number) {
+    this.currentTime += seconds;
+    for (const source of this.startedSources) {
+      if (!source.stopped && source.endsAt <= this.currentTime) {
+        source.stopped = true;
+        source.onended?.();
+      }
+    }
+  }
+}
+
+/** The capture worklet node; `capture` plays the worklet posting a chunk of 16 kHz PCM. */
+export class FakeAudioWorkletNode extends FakeAudioNode {
+  static instances: FakeAudioWorkletNode[] = [];
+
+  readonly port = { onmessage: null as ((e: { data: ArrayBuffer }) => void) | null, postMessage: () => {} };
+
+  constructor(context: FakeAudioContext, readonly name: string) {
+    super(context);
+    FakeAudioWorkletNode.instances.push(this);
+  }
+
+  capture(pcm: Int16Array) {
+    this.port.onmessage?.({ data: pcm.slice().buffer });
+  }
+}
+
+/** The output context (24 kHz) the app plays the model's audio on. */
+export function playbackContext(): FakeAudioContext {
+  const ctx = FakeAudioContext.instances.find(c => c.sampleRate === 24000);
+  if (!ctx) throw new Error('The app has not created its playback context.');
+  return ctx;
+}
+
+/** The worklet of the microphone currently being captured. */
+export function activeCapture(): FakeAudioWorkletNode {
+  const node = FakeAudioWorkletNode.instances[FakeAudioWorkletNode.instances.length - 1];
+  if (!node?.port.onmessage) throw new Error('The microphone is not being captured.');
+  return node;
+}
+
+export function installWebAudio() {
+  const target = globalThis as any;
+  target.AudioContext = FakeAudioContext;
+  target.AudioWorkletNode = FakeAudioWorkletNode;
+  // jsdom has no object URLs; the worklet module is loaded through one.
+  URL.createObjectURL = () => 'blob:fake';
+  URL.revokeObjectURL = () => {};
+}
+
+export function resetWebAudio() {
+  FakeAudioContext.instances = [];
+  FakeAudioWorkletNode.instances = [];
+}
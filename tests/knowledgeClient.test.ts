@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { createKnowledgeClient, normalizeKnowledgeResponse, trimForSpeech } from '../services/knowledgeClient';
+import { KnowledgeAdapter } from '../services/adapters';
+
+describe('knowledge replies', () => {
+  it('reads the answer from the shapes webhooks reply with', () => {
+    expect(normalizeKnowledgeResponse('  Open 9 to 5. ').answer).toBe('Open 9 to 5.');
+    expect(normalizeKnowledgeResponse([{ output: 'First.' }, { output: 'Second.' }]).answer).toBe('First.\nSecond.');
+    expect(normalizeKnowledgeResponse({ data: { text: 'Nested.' } }).answer).toBe('Nested.');
+    expect(normalizeKnowledgeResponse({ response: { answer: 'Inner.' } }).answer).toBe('Inner.');
+  });
+
+  it('collects sources from strings, links and document metadata', () => {
+    const { sources } = normalizeKnowledgeResponse({
+      answer: 'Yes.',
+      sources: ['https://riyadah.com.eg/services', 'Brochure', { metadata: { title: 'FAQ', url: 'https://riyadah.com.eg/faq' } }, 42],
+    });
+    expect(sources).toEqual([
+      { title: 'https://riyadah.com.eg/services', url: 'https://riyadah.com.eg/services' },
+      { title: 'Brochure' },
+      { title: 'FAQ', url: 'https://riyadah.com.eg/faq' },
+    ]);
+  });
+
+  it('gives an empty answer for unknown shapes instead of dumping JSON', () => {
+    expect(normalizeKnowledgeResponse({ status: 'ok', id: 3 }).answer).toBe('');
+    expect(normalizeKnowledgeResponse(null).answer).toBe('');
+  });
+
+  it('treats a reply as shared only when the endpoint marks it so', () => {
+    expect(normalizeKnowledgeResponse({ output: 'Hi.' }).shared).toBe(false);
+    expect(normalizeKnowledgeResponse({ output: 'Hi.', cacheScope: 'shared' }).shared).toBe(true);
+    expect(normalizeKnowledgeResponse([{ output: 'A.', cacheScope: 'shared' }, { output: 'B.' }]).shared).toBe(false);
+  });
+});
+
+describe('trimming answers for speech', () => {
+  it('strips markdown the voice would read aloud', () => {
+    const { text, truncated } = trimForSpeech('## Services\n- **Networks**\n- [Data centers](https://x.test)\n\n`code`', 200);
+    expect(text).toBe('Services. Networks. Data centers. code');
+    expect(truncated).toBe(false);
+  });
+
+  it('cuts at the last full sentence inside the budget', () => {
+    expect(trimForSpeech('One sentence here. Another one follows. And a third.', 45))
+      .toEqual({ text: 'One sentence here. Another one follows.', truncated: true });
+  });
+
+  it('cuts at a word when the only sentence end is too early', () => {
+    expect(trimForSpeech('Hi. This is one long sentence without an end in sight', 30))
+      .toEqual({ text: 'Hi. This is one long sentence…', truncated: true });
+  });
+});
+
+describe('knowledge cache', () => {
+  const countingAdapter = (reply: (query: string, sessionId: string) => unknown) => {
+    const calls: string[] = [];
+    const adapter: KnowledgeAdapter = {
+      name: 'test',
+      query: async (query, sessionId) => {
+        calls.push(sessionId);
+        return reply(query, sessionId);
+      },
+    };
+    return { adapter, calls };
+  };
+
+  it('keeps conversation-dependent answers to the session that asked', async () => {
+    const { adapter, calls } = countingAdapter((_, sessionId) => ({ output: `Your ticket, ${sessionId}, is open.` }));
+    const client = createKnowledgeClient(adapter);
+
+    await client.ask('my ticket?', 'alice');
+    expect(await client.ask('My ticket', 'alice')).toMatchObject({ cached: true, answer: 'Your ticket, alice, is open.' });
+    expect(await client.ask('my ticket?', 'bob')).toMatchObject({ cached: false, answer: 'Your ticket, bob, is open.' });
+    expect(calls).toEqual(['alice', 'bob']);
+  });
+
+  it('reuses answers marked shared across sessions', async () => {
+    const { adapter, calls } = countingAdapter(() => ({ output: 'We open at nine.', cacheScope: 'shared' }));
+    const client = createKnowledgeClient(adapter);
+
+    await client.ask('opening hours', 'alice');
+    expect(await client.ask('Opening hours?', 'bob')).toMatchObject({ cached: true, answer: 'We open at nine.' });
+    expect(calls).toEqual(['alice']);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { buildSystemInstruction, extendProfile } from '../config/profiles';
+import { UnknownProfileError, createProfileStore, withoutTools } from '../server/profiles';
+
+describe('profile files', () => {
+  const store = createProfileStore('profiles');
+
+  it('all load, with the shared rules from the base', async () => {
+    expect((await store.validateAll()).sort()).toEqual(['after-hours', 'default', 'sales', 'support']);
+    const sales = await store.load('sales');
+    const instruction = buildSystemInstruction(sales);
+    expect(instruction).toContain('NEVER say or write "رياضة"');
+    expect(sales.protocol.at(-1)).toMatch(/^Sales focus:/);
+    expect(sales.protocol.some(line => line.startsWith('Knowledge:'))).toBe(true);
+    expect(sales.voice).toBe('Kore');
+  });
+
+  it('cannot pick a base file as a profile', async () => {
+    await expect(store.load('_base')).rejects.toBeInstanceOf(UnknownProfileError);
+  });
+
+  it('drops tools the browser cannot run and says what to do instead', async () => {
+    const resolved = { profile: await store.load('default'), notes: [] };
+    const narrowed = withoutTools(resolved, ['request_human_agent', 'launch_rocket']);
+    expect(narrowed.profile.enabledTools).not.toContain('request_human_agent');
+    expect(narrowed.profile.enabledTools).toHaveLength(resolved.profile.enabledTools.length - 1);
+    expect(narrowed.notes[0]).toMatch(/^request_human_agent cannot be used in this call\..*hotline/);
+    expect(withoutTools(resolved, [])).toEqual(resolved);
+  });
+});
+
+describe('extendProfile', () => {
+  it('appends rule lists, merges localized overrides and lets the file win elsewhere', () => {
+    const merged = extendProfile(
+      { protocol: ['shared'], tone: 'Calm.', localized: { ar: { voice: 'Kore' } } },
+      { extends: '_base', id: 'x', protocol: ['own'], tone: 'Warm.', localized: { ar: { greeting: 'أهلاً' } } },
+    );
+    expect(merged).toEqual({
+      id: 'x',
+      protocol: ['shared', 'own'],
+      tone: 'Warm.',
+      localized: { ar: { voice: 'Kore', greeting: 'أهلاً' } },
+    });
+  });
+});
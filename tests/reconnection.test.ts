@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createReconnectionManager } from '../services/reconnection';
+
+const resumable = (newHandle: string) => ({ newHandle, resumable: true });
+
+describe('reconnection manager', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it('keeps the handle when an attempt fails on the network', async () => {
+    const manager = createReconnectionManager({ baseDelayMs: 10 });
+    manager.trackResumption(resumable('h1'));
+    const handles: (string | undefined)[] = [];
+    const done = manager.reconnect(async handle => {
+      handles.push(handle);
+      if (handles.length === 1) throw new Error('network down');
+    });
+
+    await vi.runAllTimersAsync();
+    expect(await done).toBe(true);
+    expect(handles).toEqual(['h1', 'h1']);
+  });
+
+  it('aborts an attempt that times out, leaves no timer behind, and tries again', async () => {
+    const manager = createReconnectionManager({ baseDelayMs: 10, attemptTimeoutMs: 100 });
+    const signals: AbortSignal[] = [];
+    const result = manager.reconnect((_, signal) => {
+      signals.push(signal);
+      return signals.length === 1 ? new Promise<void>(() => {}) : Promise.resolve();
+    });
+    await vi.runAllTimersAsync();
+
+    expect(await result).toBe(true);
+    expect(signals.map(s => s.aborted)).toEqual([true, false]);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('aborts the attempt in flight when cancelled', async () => {
+    const manager = createReconnectionManager({ baseDelayMs: 10 });
+    let signal: AbortSignal | undefined;
+    const result = manager.reconnect((_, s) => {
+      signal = s;
+      return new Promise<void>(() => {});
+    });
+    await vi.advanceTimersByTimeAsync(10);
+
+    manager.cancel();
+    expect(signal?.aborted).toBe(true);
+    expect(await result).toBe(false);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('drops a handle whose resumed session failed before the server confirmed it', async () => {
+    const manager = createReconnectionManager({ baseDelayMs: 10 });
+    manager.trackResumption(resumable('h1'));
+    const handles: (string | undefined)[] = [];
+    const open = async (handle: string | undefined) => { handles.push(handle); };
+
+    const first = manager.reconnect(open);
+    await vi.runAllTimersAsync();
+    await first;
+    const second = manager.reconnect(open);
+    await vi.runAllTimersAsync();
+    await second;
+
+    expect(handles).toEqual(['h1', undefined]);
+  });
+
+  it('keeps resuming once the resumed session reports a new handle', async () => {
+    const manager = createReconnectionManager({ baseDelayMs: 10 });
+    manager.trackResumption(resumable('h1'));
+    const handles: (string | undefined)[] = [];
+    const open = async (handle: string | undefined) => { handles.push(handle); };
+
+    const first = manager.reconnect(open);
+    await vi.runAllTimersAsync();
+    await first;
+    manager.trackResumption(resumable('h2'));
+    const second = manager.reconnect(open);
+    await vi.runAllTimersAsync();
+    await second;
+
+    expect(handles).toEqual(['h1', 'h2']);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { createReferenceCode, formatReferenceCode, normalizeReferenceCode } from '../utils/referenceCode';
+
+describe('reference codes', () => {
+  it('creates nine-digit codes that pass their own check', () => {
+    for (let i = 0; i < 50; i++) {
+      const code = createReferenceCode();
+      expect(code).toMatch(/^\d{9}$/);
+      expect(normalizeReferenceCode(code)).toBe(code);
+    }
+  });
+
+  it('reads codes spoken or typed with Arabic digits, spaces and dashes', () => {
+    const code = createReferenceCode(() => 0.48);
+    expect(normalizeReferenceCode(formatReferenceCode(code, 'ar'))).toBe(code);
+    expect(normalizeReferenceCode(`${code.slice(0, 3)}-${code.slice(3, 6)}-${code.slice(6)}`)).toBe(code);
+    expect(normalizeReferenceCode(code.slice(0, 6))).toBeNull();
+  });
+
+  it('rejects any single misheard digit and any swapped neighbours', () => {
+    const code = createReferenceCode(() => 0.37);
+    for (let i = 0; i < 9; i++) {
+      for (let d = 0; d < 10; d++) {
+        const misheard = code.slice(0, i) + d + code.slice(i + 1);
+        if (misheard !== code) expect(normalizeReferenceCode(misheard)).toBeNull();
+      }
+    }
+    for (let i = 0; i < 8; i++) {
+      const swapped = code.slice(0, i) + code[i + 1] + code[i] + code.slice(i + 2);
+      if (swapped !== code) expect(normalizeReferenceCode(swapped)).toBeNull();
+    }
+  });
+
+  it('groups digits in threes, in either script', () => {
+    expect(formatReferenceCode('482915307')).toBe('482 915 307');
+    expect(formatReferenceCode('482915307', 'ar')).toBe('٤٨٢ ٩١٥ ٣٠٧');
+  });
+});
@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_SCHEDULE } from '../config/schedule';
+import {
+  BusyInterval, CalendarSource, createBookingLedger, createMemoryCalendar, createRestCalendar, createScheduler,
+} from '../services/scheduling';
+import { getScheduler } from '../services/scheduling';
+import { createCalendarService } from '../server/calendar';
+import { toolRegistry } from '../tools';
+import { formatZonedIso } from '../utils/datetime';
+import { mockActionLog } from './harness/backend';
+
+const NOW = new Date('2026-10-19T08:00:00Z');
+const SLOT = new Date('2026-10-20T10:00:00+03:00');
+
+const meeting = (start: Date) => ({ start: start.toISOString(), end: new Date(start.getTime() + 30 * 60000).toISOString() });
+
+const readOnly = (intervals: BusyInterval[]): CalendarSource => ({
+  name: 'ics',
+  busy: async (from, to) => intervals.filter(i => i.start < to && i.end > from),
+});
+
+/** Routes the REST calendar's requests to the token server's handler, as two browsers would. */
+function serveCalendar(calendar: CalendarSource) {
+  const service = createCalendarService(calendar, DEFAULT_SCHEDULE, () => NOW);
+  vi.stubGlobal('fetch', async (url: string, init: RequestInit) => {
+    const path = url.replace('https://api.test', '');
+    const reply = await service.handle(path, Buffer.from(init.body as string), 'browser');
+    return new Response(JSON.stringify(reply.body), { status: reply.status });
+  });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('booking a slot', () => {
+  it('lets only the first of two callers hold the same slot and offers the second other times', async () => {
+    serveCalendar(createMemoryCalendar());
+    const first = createScheduler(DEFAULT_SCHEDULE, createRestCalendar('https://api.test/api/calendar'), () => NOW);
+    const second = createScheduler(DEFAULT_SCHEDULE, createRestCalendar('https://api.test/api/calendar'), () => NOW);
+
+    expect((await second.checkSlot(SLOT)).ok).toBe(true);
+    expect((await first.reserve(SLOT, 'A')).ok).toBe(true);
+
+    const taken = await second.reserve(SLOT, 'B');
+    expect(taken).toMatchObject({ ok: false, reason: 'taken' });
+    expect(taken.ok === false && taken.alternatives[0]).toEqual(new Date('2026-10-20T10:30:00+03:00'));
+  });
+
+  it('holds bookings over a read-only calendar one at a time', async () => {
+    const ledger = createBookingLedger(readOnly([
+      { start: new Date('2026-10-20T09:00:00+03:00'), end: new Date('2026-10-20T09:30:00+03:00') },
+    ]));
+    const scheduler = createScheduler(DEFAULT_SCHEDULE, ledger, () => NOW);
+
+    expect(await scheduler.reserve(new Date('2026-10-20T09:00:00+03:00'))).toMatchObject({ ok: false, reason: 'taken' });
+    const hold = () => ledger.reserve!({ start: SLOT, end: new Date(SLOT.getTime() + 30 * 60000) }).then(() => 'held', e => e.name);
+    const results = await Promise.all([hold(), hold()]);
+    expect(results.sort()).toEqual(['SlotTakenError', 'held']);
+  });
+
+  it('gives the slot back when the booking cannot be logged', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(mockActionLog(), 'logAction').mockRejectedValue(new Error('Sheet unavailable'));
+    const [slot] = await getScheduler().openSlots({ limit: 1 });
+
+    const response = await toolRegistry.dispatch({
+      id: 'call-1',
+      name: 'book_meeting',
+      args: { name: 'Mona Adel', phone: '01001234567', email: 'mona@example.com', datetime: formatZonedIso(slot), purpose: 'Demo' },
+    }, { sessionId: 'sess_test' });
+
+    expect(response.response).toMatchObject({ error: { code: 'HANDLER_FAILED' } });
+    expect((await getScheduler().checkSlot(slot)).ok).toBe(true);
+  });
+
+  it('refuses to book through a read-only calendar', async () => {
+    const scheduler = createScheduler(DEFAULT_SCHEDULE, readOnly([]), () => NOW);
+    await expect(scheduler.reserve(SLOT)).rejects.toThrow(/read-only/);
+  });
+
+  it('rejects malformed or oversized calendar requests', async () => {
+    const calendar = createMemoryCalendar();
+    const service = createCalendarService(calendar, DEFAULT_SCHEDULE, () => NOW);
+    const post = (path: string, body: unknown) => service.handle(path, Buffer.from(JSON.stringify(body)), 'browser');
+
+    expect((await post('/api/calendar/busy', { start: 'soon' })).status).toBe(400);
+    expect((await post('/api/calendar/reserve', { start: '2026-10-20T00:00:00Z', end: '2026-10-25T00:00:00Z' })).status).toBe(400);
+    expect((await post('/api/calendar/reserve', meeting(new Date('2026-10-20T20:00:00+03:00')))).status).toBe(422);
+    expect((await post('/api/calendar/reserve', meeting(new Date('2026-12-20T10:00:00+02:00')))).status).toBe(422);
+    expect(calendar.intervals).toHaveLength(0);
+  });
+});
+
+describe('shared calendar holds', () => {
+  let clock = NOW.getTime();
+  const calendar = createMemoryCalendar();
+  const service = createCalendarService(calendar, DEFAULT_SCHEDULE, () => new Date(clock));
+  const post = (path: string, start: Date, client = 'browser') =>
+    service.handle(path, Buffer.from(JSON.stringify(meeting(start))), client);
+  const at = (hhmm: string) => new Date(`2026-10-21T${hhmm}:00+03:00`);
+
+  afterEach(() => {
+    clock = NOW.getTime();
+    calendar.intervals.length = 0;
+  });
+
+  it('releases holds that are never confirmed and keeps confirmed ones', async () => {
+    expect((await post('/api/calendar/reserve', at('10:00'))).status).toBe(200);
+    expect((await post('/api/calendar/reserve', at('11:00'))).status).toBe(200);
+    expect((await post('/api/calendar/confirm', at('11:00'))).status).toBe(200);
+
+    clock += 11 * 60000;
+    expect((await post('/api/calendar/busy', at('10:00'))).body).toEqual({ busy: [] });
+    expect((await post('/api/calendar/reserve', at('11:00'))).status).toBe(409);
+  });
+
+  it('caps unconfirmed holds per client and lets only the holder release one', async () => {
+    for (const hhmm of ['10:00', '11:00', '12:00']) expect((await post('/api/calendar/reserve', at(hhmm))).status).toBe(200);
+    expect((await post('/api/calendar/reserve', at('13:00'))).status).toBe(429);
+    expect((await post('/api/calendar/reserve', at('13:00'), 'other')).status).toBe(200);
+
+    expect((await post('/api/calendar/release', at('10:00'), 'other')).status).toBe(404);
+    expect((await post('/api/calendar/release', at('10:00'))).status).toBe(200);
+    expect((await post('/api/calendar/reserve', at('10:00'), 'other')).status).toBe(200);
+  });
+});
@@ -0,0 +1,20 @@
+import { afterEach, beforeAll, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+import { fakeLive } from './harness/fakeLiveApi';
+import { fakeMedia, installMedia } from './harness/media';
+import { installWebAudio, resetWebAudio } from './harness/webAudio';
+
+beforeAll(() => {
+  installWebAudio();
+  installMedia();
+});
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  fakeLive.reset();
+  fakeMedia.reset();
+  resetWebAudio();
+  window.localStorage.clear();
+});
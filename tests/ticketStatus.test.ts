@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from 'vitest';
+import { FunctionResponse } from '@google/genai';
+import { toolRegistry } from '../tools';
+import { submitSupportAction } from '../services/riyadahApi';
+import { createSheetsActionAdapter } from '../services/adapters/sheetsActions';
+import { formatReferenceCode } from '../utils/referenceCode';
+import { mockActionLog } from './harness/backend';
+
+const dispatch = (name: string, args: Record<string, unknown>) =>
+  toolRegistry.dispatch({ id: 'call-1', name, args }, { sessionId: 'sess_test' });
+
+const resultText = (response: FunctionResponse) => (response.response as { result: string }).result;
+
+async function logTicket() {
+  return submitSupportAction({
+    messageType: 'Support Ticket',
+    actionDone: 'Support Ticket Logged',
+    clientName: 'Mona Adel',
+    phone: '+201001234567',
+    email: 'mona@example.com',
+    topic: 'Support: The office network is down.',
+  });
+}
+
+describe('ticket references', () => {
+  it('gives every logged action a reference and reads it back in both scripts', async () => {
+    const response = await dispatch('create_support_ticket', {
+      name: 'Mona Adel', phone: '01001234567', email: 'mona@example.com', type: 'Support', description: 'No internet.',
+    });
+
+    const reference = mockActionLog().log.at(-1)!.reference;
+    expect(resultText(response)).toContain(formatReferenceCode(reference));
+    expect(resultText(response)).toContain(formatReferenceCode(reference, 'ar'));
+  });
+});
+
+describe('check_ticket_status', () => {
+  it('finds a ticket by reference and phone, said in Arabic digits', async () => {
+    const { reference } = await logTicket();
+    mockActionLog().updateAction(reference, 'in_progress', 'An engineer is on the way.');
+
+    const response = await dispatch('check_ticket_status', { reference: formatReferenceCode(reference, 'ar'), phone: '010 0123 4567' });
+
+    expect(resultText(response)).toContain('is being worked on');
+    expect(resultText(response)).toContain('An engineer is on the way.');
+  });
+
+  it('finds a ticket by reference and email', async () => {
+    const { reference } = await logTicket();
+
+    const response = await dispatch('check_ticket_status', { reference, email: 'Mona@Example.com' });
+
+    expect(resultText(response)).toContain('received and waiting to be picked up');
+  });
+
+  it('gives the same answer for a wrong contact as for an unknown code', async () => {
+    const { reference } = await logTicket();
+
+    const response = await dispatch('check_ticket_status', { reference, phone: '01111111111' });
+
+    expect(resultText(response)).toContain('No ticket matches');
+  });
+
+  it('asks again for a code that fails the check digit', async () => {
+    const { reference } = await logTicket();
+    const misheard = `${(Number(reference[0]) + 1) % 10}${reference.slice(1)}`;
+
+    const response = await dispatch('check_ticket_status', { reference: misheard, phone: '01001234567' });
+
+    expect(response.response).toMatchObject({ error: { code: 'INVALID_ARGUMENTS', fields: [{ field: 'reference' }] } });
+  });
+
+  it('needs a phone number or email', async () => {
+    const { reference } = await logTicket();
+
+    const response = await dispatch('check_ticket_status', { reference });
+
+    expect(response.response).toMatchObject({ error: { code: 'INVALID_ARGUMENTS', fields: [{ field: 'phone' }] } });
+  });
+});
+
+describe('Sheets lookups', () => {
+  it('cannot look actions up without a lookup endpoint', () => {
+    expect(createSheetsActionAdapter('https://script.test/exec').findAction).toBeUndefined();
+  });
+
+  it('asks the lookup endpoint with the REST contract', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(Response.json({ found: false }));
+    const adapter = createSheetsActionAdapter('https://script.test/exec', 'cors', 'https://lookup.test/find');
+
+    expect(await adapter.findAction!({ reference: '482915307', phone: '+201001234567' })).toBeNull();
+    expect(fetchMock).toHaveBeenCalledWith('https://lookup.test/find', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ reference: '482915307', phone: '+201001234567' }),
+    }));
+  });
+});
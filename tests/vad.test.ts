@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { createVad } from '../utils/vad';
+
+/** A 40 ms, 16 kHz frame of a 200 Hz sine at `amplitude` (0..1). */
+const sine = (amplitude: number, offset = 0) =>
+  Int16Array.from({ length: 640 }, (_, i) => Math.round(Math.sin((2 * Math.PI * 200 * (offset + i)) / 16000) * amplitude * 32767));
+
+describe('vad', () => {
+  it('marks speech with pre-roll and ends it after the hangover', () => {
+    const vad = createVad({ hangoverMs: 120 });
+    expect(vad.process(sine(0.001)).event).toBeNull();
+    const start = vad.process(sine(0.3));
+    expect(start.event).toBe('start');
+    expect(start.frames).toHaveLength(2);
+    expect(vad.process(sine(0.001)).event).toBeNull();
+    expect(vad.process(sine(0.001)).event).toBeNull();
+    expect(vad.process(sine(0.001)).event).toBe('end');
+  });
+
+  it('gates whole frames without clipping the waveform around zero', () => {
+    const vad = createVad({ noiseGateRms: 0.004 });
+    vad.process(sine(0.3));
+    const speech = sine(0.02, 640);
+    const [passed] = vad.process(speech).frames;
+    // Fully open: every sample, small ones near zero crossings included, goes through untouched.
+    expect(passed).toEqual(speech);
+  });
+
+  it('fades quiet frames out over the release instead of cutting them', () => {
+    const vad = createVad({ noiseGateRms: 0.004, hangoverMs: 2000 });
+    vad.process(sine(0.3));
+    vad.process(sine(0.3, 640));
+    const [tail] = vad.process(sine(0.003, 1280)).frames;
+    const peak = (pcm: Int16Array, from: number, to: number) => Math.max(...pcm.slice(from, to).map(Math.abs));
+    expect(peak(tail, 0, 80)).toBeGreaterThan(0);
+    expect(peak(tail, 0, 80)).toBeGreaterThan(peak(tail, 400, 480));
+
+    vad.process(sine(0.003, 1920));
+    vad.process(sine(0.003, 2560));
+    const [closed] = vad.process(sine(0.003, 3200)).frames;
+    expect(peak(closed, 0, 640)).toBe(0);
+  });
+
+  it('ends a turn held open by steady noise and does not restart it on the same noise', () => {
+    const vad = createVad({ maxSpeechMs: 2000 });
+    expect(vad.process(sine(0.05)).event).toBe('start');
+    const events = Array.from({ length: 100 }, (_, i) => vad.process(sine(0.05, (i + 1) * 640)).event);
+    expect(events.filter(e => e === 'end')).toHaveLength(1);
+    expect(events).not.toContain('start');
+  });
+});
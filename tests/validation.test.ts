@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeEmail, normalizePhone } from '../utils/validation';
+import { validContactDetails } from '../tools/contactValidation';
+
+describe('normalizePhone', () => {
+  it('puts Egyptian mobile and landline numbers in E.164', () => {
+    expect(normalizePhone('010 0123 4567')).toEqual({ ok: true, value: '+201001234567' });
+    expect(normalizePhone('٠١٠٠١٢٣٤٥٦٧')).toEqual({ ok: true, value: '+201001234567' });
+    expect(normalizePhone('+20 010 0123 4567')).toEqual({ ok: true, value: '+201001234567' });
+    expect(normalizePhone('02-2345-6789')).toEqual({ ok: true, value: '+20223456789' });
+  });
+
+  it('keeps foreign numbers that carry a country code', () => {
+    expect(normalizePhone('00966 50 123 4567')).toEqual({ ok: true, value: '+966501234567' });
+  });
+
+  it('rejects letters, short numbers and numbers without a country code', () => {
+    expect(normalizePhone('010 CALL ME')).toMatchObject({ ok: false });
+    expect(normalizePhone('0100123')).toMatchObject({ ok: false });
+    expect(normalizePhone('+20 100 123')).toMatchObject({ ok: false });
+    expect(normalizePhone('555 1234 5678')).toMatchObject({ ok: false });
+  });
+});
+
+describe('normalizeEmail', () => {
+  it('undoes dictation and lower-cases', () => {
+    expect(normalizeEmail('Mona dot Adel at Example dot com')).toEqual({ ok: true, value: 'mona.adel@example.com' });
+    expect(normalizeEmail(' Mona@Example.COM ')).toEqual({ ok: true, value: 'mona@example.com' });
+  });
+
+  it('rejects malformed addresses', () => {
+    expect(normalizeEmail('mona@example')).toMatchObject({ ok: false });
+    expect(normalizeEmail('mona..adel@example.com')).toMatchObject({ ok: false });
+    expect(normalizeEmail('mona at example')).toMatchObject({ ok: false });
+  });
+});
+
+describe('validContactDetails', () => {
+  it('normalizes host-supplied details and drops the ones a tool would reject', () => {
+    expect(validContactDetails({ name: ' Mona Adel ', phone: '010 0123 4567', email: 'Mona@Example.com' }))
+      .toEqual({ name: 'Mona Adel', phone: '+201001234567', email: 'mona@example.com' });
+    expect(validContactDetails({ name: 'Mona', phone: 'call me', email: 'not-an-email', extra: {} }))
+      .toEqual({ name: 'Mona' });
+  });
+});
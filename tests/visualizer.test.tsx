@@ -0,0 +1,58 @@
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, render, screen } from '@testing-library/react';
+import { Visualizer } from '../components/Visualizer';
+import { I18nProvider } from '../i18n/I18nProvider';
+
+/** An analyser whose waveform is a constant `level`, set by the test. */
+function fakeAnalyser() {
+  const analyser = {
+    level: 0,
+    fftSize: 512,
+    frequencyBinCount: 256,
+    context: { sampleRate: 48000 },
+    getByteFrequencyData: () => {},
+    getFloatTimeDomainData: (array: Float32Array) => array.fill(analyser.level),
+  };
+  return analyser;
+}
+
+function renderVisualizer() {
+  const mic = fakeAnalyser();
+  const speaker = fakeAnalyser();
+  render(
+    <I18nProvider>
+      <Visualizer active inputAnalyser={mic as unknown as AnalyserNode} outputAnalyser={speaker as unknown as AnalyserNode} />
+    </I18nProvider>,
+  );
+  return { mic, speaker };
+}
+
+const advance = (ms: number) => act(() => { vi.advanceTimersByTime(ms); });
+
+describe('mic state', () => {
+  beforeEach(() => vi.useFakeTimers({ toFake: ['requestAnimationFrame', 'cancelAnimationFrame', 'performance'] }));
+  afterEach(() => vi.useRealTimers());
+
+  it('reports no signal from a mic that has never picked anything up', () => {
+    renderVisualizer();
+    advance(3500);
+    expect(screen.getByText('No signal')).toBeTruthy();
+  });
+
+  it('does not count time the assistant is speaking', () => {
+    const { speaker } = renderVisualizer();
+    speaker.level = 0.2;
+    advance(5000);
+    expect(screen.queryByText('No signal')).toBeNull();
+  });
+
+  it('stays quiet about a working mic while the caller listens', () => {
+    const { mic } = renderVisualizer();
+    mic.level = 0.05;
+    advance(100);
+    mic.level = 0;
+    advance(10000);
+    expect(screen.queryByText('No signal')).toBeNull();
+  });
+});
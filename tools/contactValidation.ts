@@ -0,0 +1,69 @@
+import { CustomerContact } from '../types';
+import { normalizeEmail, normalizePhone } from '../utils/validation';
+import { parseBusinessDateTime } from '../utils/datetime';
+import { ToolFieldError, ToolValidation, requireStringArgs } from './registry';
+
+const CONTACT_FIELDS = ['name', 'phone', 'email'] as const;
+
+const DATETIME_MESSAGES = {
+  unrecognized: 'The meeting time could not be understood. Ask the customer to repeat the day and time.',
+  missing_day: 'The meeting day is missing. Ask the customer which day they prefer.',
+  missing_time: 'The meeting time is missing. Ask the customer what time of day they prefer.',
+  past: 'That meeting time has already passed. Ask the customer for a future day and time.',
+};
+
+/**
+ * Validates the shared contact fields plus any tool-specific ones, returning
+ * normalized values (E.164 phone, lower-case email, Cairo ISO `datetime`).
+ * Each error tells the model which single field to ask the customer to repeat.
+ */
+export function validateContactArgs<K extends string>(
+  args: Record<string, unknown>,
+  extraFields: readonly K[],
+  now = new Date(),
+): ToolValidation<Record<(typeof CONTACT_FIELDS)[number] | K, string>> {
+  const required = requireStringArgs(args, [...CONTACT_FIELDS, ...extraFields]);
+  if ('errors' in required) return required;
+
+  const values = required.args;
+  const errors: ToolFieldError[] = [];
+
+  const phone = normalizePhone(values.phone);
+  if (phone.ok === true) values.phone = phone.value;
+  else errors.push({
+    field: 'phone',
+    message: `The phone number "${values.phone}" is not valid (${phone.reason}). Ask the customer to repeat their phone number digit by digit.`,
+  });
+
+  const email = normalizeEmail(values.email);
+  if (email.ok === true) values.email = email.value;
+  else errors.push({
+    field: 'email',
+    message: `The email "${values.email}" is not valid. Ask the customer to spell their email address again.`,
+  });
+
+  if ('datetime' in values) {
+    const when = parseBusinessDateTime(values.datetime as string, now);
+    if (when.ok === true) (values as Record<string, string>).datetime = when.iso;
+    else errors.push({ field: 'datetime', message: DATETIME_MESSAGES[when.reason] });
+  }
+
+  return errors.length ? { ok: false, errors } : { ok: true, args: values };
+}
+
+/**
+ * Normalizes contact details that did not come from the customer (the host page's context),
+ * dropping any the tools would reject so they never reach a logged action unchecked.
+ */
+export function validContactDetails(details: Record<string, unknown>): CustomerContact {
+  const contact: CustomerContact = {};
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+  const name = text(details.name);
+  if (name) contact.name = name;
+  const phone = normalizePhone(text(details.phone) ?? '');
+  if (phone.ok === true) contact.phone = phone.value;
+  const email = normalizeEmail(text(details.email) ?? '');
+  if (email.ok === true) contact.email = email.value;
+  return contact;
+}
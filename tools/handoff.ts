@@ -0,0 +1,89 @@
+import { Type } from '@google/genai';
+import { requestHumanAgent } from '../services/riyadahApi';
+import { HandoffPreference, HandoffTicket } from '../types';
+import { mergeContact } from '../utils/contact';
+import { BUSINESS_TIME_ZONE } from '../utils/datetime';
+import { normalizePhone } from '../utils/validation';
+import { ToolFieldError, defineTool, requireStringArgs } from './registry';
+
+/** Enough recent turns for an agent to catch up; the oldest are least useful. */
+const MAX_TRANSCRIPT_TURNS = 60;
+
+interface HandoffArgs {
+  reason: string;
+  preference: HandoffPreference;
+  name?: string;
+  phone?: string;
+}
+
+const formatTime = (iso: string) => new Intl.DateTimeFormat('en-GB', {
+  timeZone: BUSINESS_TIME_ZONE, weekday: 'long', hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+}).format(new Date(iso));
+
+function formatTicket(ticket: HandoffTicket): string {
+  switch (ticket.status) {
+    case 'queued':
+      return `The request is in the agent queue (reference ${ticket.id}, position ${ticket.position ?? 'unknown'}, about ${ticket.estimatedWaitMinutes ?? 'a few'} minutes). An agent will contact the customer when it is their turn; this call is not transferred and you will get no update. Tell them so, say you can keep helping meanwhile, and that a callback at a set time is also possible.`;
+    case 'callback_scheduled':
+      return `A callback is scheduled (reference ${ticket.id})${ticket.callbackBy ? `; an agent will call by ${formatTime(ticket.callbackBy)} Cairo time` : ''}. Confirm the phone number with the customer.`;
+    case 'unavailable':
+      return 'No agent can take this right now. Offer a callback (call request_human_agent again with preference "callback" and the phone number), or give the hotline (+2) 0155-155-3285.';
+  }
+}
+
+export const requestHumanAgentTool = defineTool({
+  declaration: {
+    name: 'request_human_agent',
+    parameters: {
+      type: Type.OBJECT,
+      description: 'Hand the customer over to a human agent, with the conversation so far. Use when they ask for a person or you cannot resolve their request.',
+      properties: {
+        reason: { type: Type.STRING, description: 'Why the customer needs a person, in one sentence.' },
+        preference: { type: Type.STRING, description: '"wait" to join the live queue (default) or "callback" to be called back.' },
+        name: { type: Type.STRING, description: 'Customer full name, if known.' },
+        phone: { type: Type.STRING, description: 'Phone number; required for a callback.' },
+      },
+      required: ['reason'],
+    },
+  },
+  validate: (args, ctx) => {
+    const required = requireStringArgs(args, ['reason']);
+    if ('errors' in required) return required;
+
+    const errors: ToolFieldError[] = [];
+    const preference = typeof args.preference === 'string' && args.preference.trim() ? args.preference.trim().toLowerCase() : 'wait';
+    if (preference !== 'wait' && preference !== 'callback') {
+      errors.push({ field: 'preference', message: 'Preference must be "wait" or "callback". Ask the customer which they prefer.' });
+    }
+    const out: HandoffArgs = { reason: required.args.reason, preference: preference as HandoffPreference };
+    if (typeof args.name === 'string' && args.name.trim()) out.name = args.name.trim();
+    if (typeof args.phone === 'string' && args.phone.trim()) {
+      const phone = normalizePhone(args.phone);
+      if (phone.ok === true) out.phone = phone.value;
+      else errors.push({
+        field: 'phone',
+        message: `The phone number "${args.phone}" is not valid (${phone.reason}). Ask the customer to repeat their phone number digit by digit.`,
+      });
+    } else if (out.preference === 'callback' && !ctx.conversation?.().contact.phone) {
+      errors.push({ field: 'phone', message: 'A callback needs the customer\'s phone number. Ask for it, then call request_human_agent again with "phone".' });
+    }
+    return errors.length ? { ok: false, errors } : { ok: true, args: out };
+  },
+  handler: (args, ctx) => {
+    const snapshot = ctx.conversation?.() ?? { transcript: [], contact: {} };
+    const contact = mergeContact(snapshot.contact, { name: args.name, phone: args.phone });
+    return requestHumanAgent({
+      sessionId: ctx.sessionId,
+      reason: args.reason,
+      preference: args.preference,
+      contact,
+      transcript: snapshot.transcript
+        .filter(m => m.isFinal && m.text.trim())
+        .slice(-MAX_TRANSCRIPT_TURNS)
+        .map(({ role, text, timestamp }) => ({ role, text, timestamp })),
+      profileId: snapshot.profileId,
+      requestedAt: new Date().toISOString(),
+    });
+  },
+  format: formatTicket,
+});
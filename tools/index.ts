@@ -0,0 +1,13 @@
+import { createToolRegistry } from './registry';
+import { knowledgeBaseTool } from './knowledgeBase';
+import { checkAvailabilityTool } from './scheduling';
+import { requestHumanAgentTool } from './handoff';
+import { bookMeetingTool, createTicketTool, logSalesInterestTool } from './supportActions';
+import { checkTicketStatusTool } from './ticketStatus';
+import { setRecordingConsentTool } from './recording';
+
+export * from './registry';
+
+export const defaultTools = [knowledgeBaseTool, checkAvailabilityTool, bookMeetingTool, createTicketTool, logSalesInterestTool, checkTicketStatusTool, requestHumanAgentTool, setRecordingConsentTool];
+
+export const toolRegistry = createToolRegistry(defaultTools);
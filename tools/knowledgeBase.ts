@@ -0,0 +1,36 @@
+import { Type } from '@google/genai';
+import { KnowledgeResult } from '../services/knowledgeClient';
+import { queryKnowledgeBase } from '../services/riyadahApi';
+import { defineTool, requireStringArgs } from './registry';
+
+const formatAnswer = (res: KnowledgeResult) => {
+  if (res.status === 'pending') {
+    return 'The knowledge base is still looking this up. Tell the customer you are still checking, then call query_knowledge_base again with the same query.';
+  }
+  if (!res.answer) {
+    return 'The knowledge base has no answer for this. Say so, and offer a meeting or a support ticket instead of guessing.';
+  }
+  const sources = res.sources.length
+    ? `\nSources (name them only if the customer asks where this comes from): ${res.sources.map(s => s.url ? `${s.title} (${s.url})` : s.title).join('; ')}`
+    : '';
+  const more = res.truncated ? '\nThis is a shortened answer; offer more detail if the customer wants it.' : '';
+  return `${res.answer}${sources}${more}`;
+};
+
+export const knowledgeBaseTool = defineTool({
+  declaration: {
+    name: 'query_knowledge_base',
+    parameters: {
+      type: Type.OBJECT,
+      description: 'Query Riyadah knowledge base for information about company services and products.',
+      properties: {
+        query: { type: Type.STRING, description: 'The user query to search for.' },
+        sessionId: { type: Type.STRING, description: 'A unique session ID.' }
+      },
+      required: ['query', 'sessionId'],
+    },
+  },
+  validate: args => requireStringArgs(args, ['query']),
+  handler: ({ query }, ctx) => queryKnowledgeBase(query, ctx.sessionId),
+  format: formatAnswer,
+});
@@ -0,0 +1,43 @@
+import { Type } from '@google/genai';
+import { recordingConfigFromEnv } from '../config/recording';
+import { defineTool } from './registry';
+
+const YES = ['true', 'yes', 'agree', 'agreed', 'ok', 'okay', 'نعم', 'موافق', 'ايوه', 'أيوه', 'اه', 'آه'];
+const NO = ['false', 'no', 'decline', 'declined', 'refuse', 'refused', 'لا', 'مش موافق'];
+
+/**
+ * Records the caller's spoken answer to the recording question. The widget
+ * starts or skips the recorder when it sees the outcome; this only checks the
+ * answer is unambiguous.
+ */
+export const setRecordingConsentTool = defineTool({
+  declaration: {
+    name: 'set_recording_consent',
+    parameters: {
+      type: Type.OBJECT,
+      description: 'Record whether the customer agreed, out loud, to this call being recorded for quality review. Call only after asking them.',
+      properties: {
+        consent: { type: Type.BOOLEAN, description: 'true if the customer clearly agreed, false if they declined.' },
+      },
+      required: ['consent'],
+    },
+  },
+  validate: args => {
+    const raw = typeof args.consent === 'string' ? args.consent.trim().toLowerCase() : args.consent;
+    if (raw === true || YES.includes(raw as string)) return { ok: true, args: { consent: true } };
+    if (raw === false || NO.includes(raw as string)) return { ok: true, args: { consent: false } };
+    return {
+      ok: false,
+      errors: [{ field: 'consent', message: 'The answer was not a clear yes or no. Ask the customer again whether the call may be recorded.' }],
+    };
+  },
+  handler: async args => {
+    if (!recordingConfigFromEnv().enabled) {
+      throw new Error('Call recording is not available here. Tell the customer the call is not being recorded and do not ask again.');
+    }
+    return args;
+  },
+  format: ({ consent }) => consent
+    ? 'Recording has started. Thank the customer briefly and continue.'
+    : 'The call will not be recorded. Confirm that to the customer briefly and continue.',
+});
@@ -0,0 +1,160 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse } from '@google/genai';
+import { CustomerContact, MessageLog } from '../types';
+
+/** The call as it stands when a tool runs, for tools that hand it on (e.g. to a human agent). */
+export interface ConversationSnapshot {
+  transcript: MessageLog[];
+  contact: CustomerContact;
+  profileId?: string;
+}
+
+export interface ToolContext {
+  sessionId: string;
+  conversation?: () => ConversationSnapshot;
+  /** Called once per dispatched call with what happened, for listeners outside the model loop. */
+  onOutcome?: (outcome: ToolOutcome) => void;
+}
+
+export interface ToolOutcome {
+  name: string;
+  args: Record<string, unknown>;
+  /** The arguments as validation normalised them; absent when they did not validate. */
+  validArgs?: Record<string, unknown>;
+  /** The handler's raw result; absent when the call failed. */
+  result?: unknown;
+  error?: ToolError;
+  durationMs: number;
+}
+
+export interface ToolFieldError {
+  field: string;
+  message: string;
+}
+
+export type ToolValidation<A> =
+  | { ok: true; args: A }
+  | { ok: false; errors: ToolFieldError[] };
+
+export type ToolErrorCode = 'UNKNOWN_TOOL' | 'INVALID_ARGUMENTS' | 'HANDLER_FAILED';
+
+export interface ToolError {
+  code: ToolErrorCode;
+  message: string;
+  fields?: ToolFieldError[];
+}
+
+export type ToolResponsePayload = { result: string } | { error: ToolError };
+
+/**
+ * A single model-callable tool: what the model sees (`declaration`), how raw
+ * arguments are checked, what runs, and how the outcome is phrased back.
+ */
+export interface ToolDefinition<A = any, R = any> {
+  declaration: FunctionDeclaration;
+  /**
+   * May be async when checking needs a lookup, e.g. calendar availability, and may read
+   * the call through `ctx`, e.g. for contact details the customer gave earlier.
+   */
+  validate: (args: Record<string, unknown>, ctx: ToolContext) => ToolValidation<A> | Promise<ToolValidation<A>>;
+  handler: (args: A, ctx: ToolContext) => Promise<R>;
+  format: (result: R, args: A) => string;
+}
+
+export interface ToolRegistry {
+  /** All declarations, or only the named ones in registry order. */
+  declarations: (names?: string[]) => FunctionDeclaration[];
+  names: () => string[];
+  dispatch: (call: FunctionCall, ctx: ToolContext) => Promise<FunctionResponse>;
+}
+
+export function defineTool<A, R>(tool: ToolDefinition<A, R>): ToolDefinition<A, R> {
+  return tool;
+}
+
+/** Checks that every listed field is a non-empty string and returns them trimmed. */
+export function requireStringArgs<K extends string>(
+  args: Record<string, unknown>,
+  fields: readonly K[],
+): ToolValidation<Record<K, string>> {
+  const errors: ToolFieldError[] = [];
+  const out = {} as Record<K, string>;
+  for (const field of fields) {
+    const value = args[field];
+    if (typeof value !== 'string' || value.trim() === '') {
+      errors.push({ field, message: `"${field}" is required.` });
+    } else {
+      out[field] = value.trim();
+    }
+  }
+  return errors.length ? { ok: false, errors } : { ok: true, args: out };
+}
+
+export function createToolRegistry(tools: ToolDefinition[]): ToolRegistry {
+  const byName = new Map<string, ToolDefinition>();
+  for (const tool of tools) {
+    const name = tool.declaration.name;
+    if (!name) throw new Error('Tool declaration is missing a name.');
+    if (byName.has(name)) throw new Error(`Duplicate tool "${name}".`);
+    byName.set(name, tool);
+  }
+
+  const respond = (call: FunctionCall, response: ToolResponsePayload): FunctionResponse => ({
+    id: call.id,
+    name: call.name,
+    response,
+  });
+
+  const run = async (
+    call: FunctionCall,
+    ctx: ToolContext,
+  ): Promise<{ response: ToolResponsePayload; result?: unknown; validArgs?: Record<string, unknown> }> => {
+    const tool = call.name ? byName.get(call.name) : undefined;
+    if (!tool) {
+      return { response: { error: { code: 'UNKNOWN_TOOL', message: `No tool named "${call.name}" is available.` } } };
+    }
+
+    let validation: ToolValidation<unknown>;
+    try {
+      validation = await tool.validate(call.args ?? {}, ctx);
+    } catch (e: any) {
+      return { response: { error: { code: 'HANDLER_FAILED', message: e?.message || 'Tool failed.' } } };
+    }
+    if ('errors' in validation) {
+      return {
+        response: {
+          error: {
+            code: 'INVALID_ARGUMENTS',
+            message: validation.errors.map(e => e.message).join(' '),
+            fields: validation.errors,
+          },
+        },
+      };
+    }
+
+    const validArgs = validation.args as Record<string, unknown>;
+    try {
+      const result = await tool.handler(validation.args, ctx);
+      return { response: { result: tool.format(result, validation.args) }, result, validArgs };
+    } catch (e: any) {
+      return { response: { error: { code: 'HANDLER_FAILED', message: e?.message || 'Tool failed.' } }, validArgs };
+    }
+  };
+
+  return {
+    declarations: names => tools.map(t => t.declaration).filter(d => !names || names.includes(d.name!)),
+    names: () => [...byName.keys()],
+    dispatch: async (call, ctx) => {
+      const started = Date.now();
+      const { response, result, validArgs } = await run(call, ctx);
+      ctx.onOutcome?.({
+        name: call.name || '',
+        args: call.args ?? {},
+        validArgs,
+        result,
+        error: 'error' in response ? response.error : undefined,
+        durationMs: Date.now() - started,
+      });
+      return respond(call, response);
+    },
+  };
+}
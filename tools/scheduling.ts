@@ -0,0 +1,94 @@
+import { Type } from '@google/genai';
+import { ScheduleConfig } from '../config/schedule';
+import { getScheduler } from '../services/scheduling';
+import { SlotRejection } from '../services/scheduling/types';
+import { CalendarDay, formatZonedIso, fromWallTime, parseBusinessDay } from '../utils/datetime';
+import { defineTool } from './registry';
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/** "Tuesday 20 October at 10:00 (2026-10-20T10:00:00+03:00)": speakable, plus the exact value to book with. */
+export function formatSlot(slot: Date, timeZone: string): string {
+  const spoken = new Intl.DateTimeFormat('en-GB', {
+    timeZone, weekday: 'long', day: 'numeric', month: 'long', hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+  }).format(slot).replace(',', '');
+  return `${spoken} (${formatZonedIso(slot, timeZone)})`;
+}
+
+const formatSlots = (slots: Date[], timeZone: string) => slots.map(s => `- ${formatSlot(s, timeZone)}`).join('\n');
+
+function describeHours(config: ScheduleConfig): string {
+  const days = config.days.map(d => WEEKDAY_NAMES[d]).join(', ');
+  return `${days}, ${config.open} to ${config.close} Cairo time`;
+}
+
+const REJECTIONS: Record<SlotRejection, (config: ScheduleConfig) => string> = {
+  past: () => 'That time has already passed.',
+  too_soon: c => `Meetings need at least ${c.minNoticeMinutes} minutes' notice.`,
+  too_far: c => `Meetings can only be booked up to ${c.horizonDays} days ahead.`,
+  holiday: () => 'That day is a public holiday and the office is closed.',
+  closed_day: c => `The office is closed that day (open ${describeHours(c)}).`,
+  outside_hours: c => `That time is outside office hours (${describeHours(c)}), or the meeting would run past closing.`,
+  taken: () => 'That time is already booked.',
+};
+
+/** The field error book_meeting returns for a slot it cannot take. */
+export function describeRejection(reason: SlotRejection, alternatives: Date[], config: ScheduleConfig): string {
+  const why = REJECTIONS[reason](config);
+  if (!alternatives.length) return `${why} No nearby slots are open. Ask the customer for another day.`;
+  return `${why} Offer the customer one of these open times instead, then call book_meeting again with the one they choose:\n${formatSlots(alternatives, config.timeZone)}`;
+}
+
+interface AvailabilityResult {
+  day?: CalendarDay;
+  closed?: 'holiday' | 'closed_day' | null;
+  /** Open slots on `day`, or the next open ones when no day was asked for or it is full. */
+  slots: Date[];
+  dayFull?: boolean;
+}
+
+export const checkAvailabilityTool = defineTool({
+  declaration: {
+    name: 'check_availability',
+    parameters: {
+      type: Type.OBJECT,
+      description: 'List open meeting slots. Call this before book_meeting and only offer times it returns.',
+      properties: {
+        day: { type: Type.STRING, description: 'Day the customer asked about, as they said it (e.g. "tomorrow", "next Sunday", "21/10"). Omit for the next open slots.' },
+      },
+    },
+  },
+  validate: args => {
+    const raw = typeof args.day === 'string' ? args.day.trim() : '';
+    if (!raw) return { ok: true, args: {} as { day?: CalendarDay } };
+    const parsed = parseBusinessDay(raw);
+    if (parsed.ok === true) return { ok: true, args: { day: parsed.day } };
+    return {
+      ok: false,
+      errors: [{
+        field: 'day',
+        message: parsed.reason === 'past'
+          ? 'That day has already passed. Ask the customer for a future day.'
+          : 'The day could not be understood. Ask the customer which day they mean.',
+      }],
+    };
+  },
+  handler: async (args): Promise<AvailabilityResult> => {
+    const scheduler = getScheduler();
+    if (!args.day) return { slots: await scheduler.openSlots() };
+
+    const closed = scheduler.closedReason(args.day);
+    const onDay = closed ? [] : await scheduler.openSlots({ day: args.day, limit: 8 });
+    if (onDay.length) return { day: args.day, closed, slots: onDay };
+    const from = fromWallTime({ ...args.day, hour: 0, minute: 0 }, scheduler.config.timeZone);
+    return { day: args.day, closed, slots: await scheduler.openSlots({ from }), dayFull: !closed };
+  },
+  format: result => {
+    const config = getScheduler().config;
+    const list = formatSlots(result.slots, config.timeZone);
+    if (!result.slots.length) return 'No open slots in the booking window. Offer to create a support ticket so the team calls the customer back.';
+    if (result.closed) return `${REJECTIONS[result.closed](config)} The next open slots are:\n${list}`;
+    if (result.dayFull) return `No open slots left that day. The next open slots are:\n${list}`;
+    return `Open slots (offer two or three, not the whole list):\n${list}`;
+  },
+});
@@ -0,0 +1,129 @@
+import { Type } from '@google/genai';
+import { submitSupportAction } from '../services/riyadahApi';
+import { ActionReceipt } from '../services/adapters';
+import { getScheduler } from '../services/scheduling';
+import { defineTool } from './registry';
+import { validateContactArgs } from './contactValidation';
+import { describeRejection, formatSlot } from './scheduling';
+import { formatReferenceCode } from '../utils/referenceCode';
+
+const DELIVERY_TEXT: Record<ActionReceipt['status'], string> = {
+  confirmed: 'Action confirmed by the system.',
+  sent: 'Action sent to the system, but the system did not confirm it. Tell the customer it has been submitted.',
+  queued: 'Action NOT yet confirmed: the system could not be reached, so it is queued and will be retried automatically. Tell the customer it is queued, not completed.',
+};
+
+/** The delivery state, then the reference to read back; queued actions already have theirs. */
+const formatDelivery = (res: ActionReceipt) =>
+  `${DELIVERY_TEXT[res.status]} Reference code: ${formatReferenceCode(res.reference)} (in Arabic digits ${formatReferenceCode(res.reference, 'ar')}). `
+  + 'Read it to the customer digit by digit, in three groups of three and in the language of the conversation, and tell them to keep it for checking the status later.';
+
+export const bookMeetingTool = defineTool({
+  declaration: {
+    name: 'book_meeting',
+    parameters: {
+      type: Type.OBJECT,
+      description: 'Schedule a professional meeting or appointment for the customer at a time check_availability offered.',
+      properties: {
+        name: { type: Type.STRING, description: 'Customer full name.' },
+        phone: { type: Type.STRING, description: 'Phone number.' },
+        email: { type: Type.STRING, description: 'Email address.' },
+        datetime: { type: Type.STRING, description: 'Preferred date and time, as the customer said it (Cairo time).' },
+        purpose: { type: Type.STRING, description: 'Reason for the meeting.' }
+      },
+      required: ['name', 'phone', 'email', 'datetime', 'purpose'],
+    },
+  },
+  validate: async args => {
+    const validation = validateContactArgs(args, ['datetime', 'purpose']);
+    if ('errors' in validation) return validation;
+    const scheduler = getScheduler();
+    const slot = await scheduler.checkSlot(new Date(validation.args.datetime));
+    if (slot.ok === true) return validation;
+    return {
+      ok: false,
+      errors: [{ field: 'datetime', message: describeRejection(slot.reason, slot.alternatives, scheduler.config) }],
+    };
+  },
+  handler: async args => {
+    const scheduler = getScheduler();
+    const start = new Date(args.datetime);
+    // Another caller may have taken the slot since it was validated; hold it before logging the booking.
+    const slot = await scheduler.reserve(start, `${args.name}: ${args.purpose}`);
+    if (slot.ok === false) throw new Error(describeRejection(slot.reason, slot.alternatives, scheduler.config));
+    let receipt: ActionReceipt;
+    try {
+      receipt = await submitSupportAction({
+        messageType: 'Booking',
+        actionDone: 'Appointment Scheduled',
+        clientName: args.name,
+        phone: args.phone,
+        email: args.email,
+        topic: `Purpose: ${args.purpose}, Time: ${formatSlot(start, scheduler.config.timeZone)}`
+      });
+    } catch (e) {
+      // The booking was never logged, so nobody will keep it; give the slot back.
+      await scheduler.release(slot).catch(err => console.error('Could not release the held slot:', err));
+      throw e;
+    }
+    // Unconfirmed holds lapse after a few minutes; the booking is logged either way.
+    await scheduler.confirm(slot).catch(err => console.error('Could not confirm the held slot:', err));
+    return receipt;
+  },
+  format: formatDelivery,
+});
+
+export const createTicketTool = defineTool({
+  declaration: {
+    name: 'create_support_ticket',
+    parameters: {
+      type: Type.OBJECT,
+      description: 'Create a support ticket or log a complaint for the customer.',
+      properties: {
+        name: { type: Type.STRING, description: 'Customer full name.' },
+        phone: { type: Type.STRING, description: 'Phone number.' },
+        email: { type: Type.STRING, description: 'Email address.' },
+        type: { type: Type.STRING, description: 'Either "Support" or "Complaint".' },
+        description: { type: Type.STRING, description: 'Detailed description of the issue.' }
+      },
+      required: ['name', 'phone', 'email', 'type', 'description'],
+    },
+  },
+  validate: args => validateContactArgs(args, ['type', 'description']),
+  handler: args => submitSupportAction({
+    messageType: 'Support Ticket',
+    actionDone: 'Support Ticket Logged',
+    clientName: args.name,
+    phone: args.phone,
+    email: args.email,
+    topic: `${args.type}: ${args.description}`
+  }),
+  format: formatDelivery,
+});
+
+export const logSalesInterestTool = defineTool({
+  declaration: {
+    name: 'log_sales_interest',
+    parameters: {
+      type: Type.OBJECT,
+      description: 'Log a customer interest in a product or service for sales follow-up.',
+      properties: {
+        name: { type: Type.STRING, description: 'Customer full name.' },
+        phone: { type: Type.STRING, description: 'Phone number.' },
+        email: { type: Type.STRING, description: 'Email address.' },
+        interest: { type: Type.STRING, description: 'What specific product or service are they interested in?' }
+      },
+      required: ['name', 'phone', 'email', 'interest'],
+    },
+  },
+  validate: args => validateContactArgs(args, ['interest']),
+  handler: args => submitSupportAction({
+    messageType: 'Sales Query',
+    actionDone: 'Sales info Delivered',
+    clientName: args.name,
+    phone: args.phone,
+    email: args.email,
+    topic: `Interest in: ${args.interest}`
+  }),
+  format: formatDelivery,
+});
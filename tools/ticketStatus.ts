@@ -0,0 +1,78 @@
+import { Type } from '@google/genai';
+import { findSupportAction } from '../services/riyadahApi';
+import { ActionLookup, ActionRecord, ActionStatus } from '../services/adapters';
+import { BUSINESS_TIME_ZONE } from '../utils/datetime';
+import { formatReferenceCode, normalizeReferenceCode } from '../utils/referenceCode';
+import { normalizeEmail, normalizePhone } from '../utils/validation';
+import { ToolFieldError, defineTool, requireStringArgs } from './registry';
+
+const STATUS_TEXT: Record<ActionStatus, string> = {
+  received: 'received and waiting to be picked up',
+  in_progress: 'being worked on',
+  waiting_on_customer: 'waiting for information from the customer',
+  resolved: 'resolved',
+  closed: 'closed',
+};
+
+const formatTime = (iso: string) => new Intl.DateTimeFormat('en-GB', {
+  timeZone: BUSINESS_TIME_ZONE, weekday: 'long', day: 'numeric', month: 'long', hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+}).format(new Date(iso)).replace(',', '');
+
+function formatRecord(record: ActionRecord | null, lookup: ActionLookup): string {
+  const code = formatReferenceCode(lookup.reference);
+  // Said the same way whether the code is unknown or the contact is wrong, so codes cannot be probed.
+  if (!record) {
+    return `No ticket matches reference ${code} with that phone number or email. Ask the customer to check both and try again; do not say whether the code exists.`;
+  }
+  const note = record.lastUpdate ? ` Latest update: "${record.lastUpdate}".` : '';
+  return `${record.messageType} ${code} (${record.topic}) is ${STATUS_TEXT[record.status]}, last updated ${formatTime(record.updatedAt)} Cairo time.${note} `
+    + 'Tell the customer in the language of the conversation.';
+}
+
+export const checkTicketStatusTool = defineTool({
+  declaration: {
+    name: 'check_ticket_status',
+    parameters: {
+      type: Type.OBJECT,
+      description: 'Look up a ticket, booking or request the customer logged earlier, by its nine-digit reference code and the phone number or email it was logged with.',
+      properties: {
+        reference: { type: Type.STRING, description: 'The nine-digit reference code, as the customer said it.' },
+        phone: { type: Type.STRING, description: 'Phone number the ticket was logged with.' },
+        email: { type: Type.STRING, description: 'Email address the ticket was logged with.' },
+      },
+      required: ['reference'],
+    },
+  },
+  validate: args => {
+    const required = requireStringArgs(args, ['reference']);
+    if ('errors' in required) return required;
+
+    const errors: ToolFieldError[] = [];
+    const lookup: ActionLookup = { reference: normalizeReferenceCode(required.args.reference) ?? '' };
+    if (!lookup.reference) errors.push({
+      field: 'reference',
+      message: `The reference code "${required.args.reference}" is not valid (it has nine digits). Ask the customer to read it again digit by digit.`,
+    });
+
+    const given = (v: unknown): v is string => typeof v === 'string' && v.trim() !== '';
+    if (given(args.phone)) {
+      const phone = normalizePhone(args.phone);
+      if (phone.ok === true) lookup.phone = phone.value;
+      else errors.push({
+        field: 'phone',
+        message: `The phone number "${args.phone}" is not valid (${phone.reason}). Ask the customer to repeat their phone number digit by digit.`,
+      });
+    }
+    if (given(args.email)) {
+      const email = normalizeEmail(args.email);
+      if (email.ok === true) lookup.email = email.value;
+      else errors.push({ field: 'email', message: `The email "${args.email}" is not valid. Ask the customer to spell their email address again.` });
+    }
+    if (!given(args.phone) && !given(args.email)) {
+      errors.push({ field: 'phone', message: 'Ask for the phone number or email the ticket was logged with.' });
+    }
+    return errors.length ? { ok: false, errors } : { ok: true, args: lookup };
+  },
+  handler: lookup => findSupportAction(lookup),
+  format: formatRecord,
+});
@@ -1,13 +1,107 @@
 
-export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
+export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'error';
+
+/** open-mic: local VAD decides when the caller speaks. push-to-talk: a held key or button does. */
+export type TalkMode = 'open-mic' | 'push-to-talk';
+
+/** How the customer talks to the assistant: speaking, or typing (replies then arrive as text only). */
+export type InputMode = 'voice' | 'text';
+
+/** off: recording disabled or no call. asking: consent prompt open. */
+export type RecordingState = 'off' | 'asking' | 'recording' | 'declined';
 
 export interface MessageLog {
   role: 'user' | 'assistant';
   text: string;
   timestamp: Date;
+  isFinal: boolean;
 }
 
 export interface VoiceState {
   isSpeaking: boolean;
   isListening: boolean;
 }
+
+export interface CustomerContact {
+  name?: string;
+  phone?: string;
+  email?: string;
+}
+
+export type CallEndReason = 'user_hangup' | 'host_end' | 'connection_lost' | 'error';
+
+export interface ToolCallRecord {
+  name: string;
+  ok: boolean;
+  /** Delivery status for logged actions, or the error code. */
+  outcome: string;
+  /** Reference code of a logged action. */
+  reference?: string;
+  durationMs: number;
+  /** ISO time the call finished. */
+  at: string;
+}
+
+export interface CallSummary {
+  sessionId: string;
+  /** 1-based count of calls made in this page session. */
+  callNumber: number;
+  startedAt: string;
+  endedAt: string;
+  durationSec: number;
+  endReason: CallEndReason;
+  language: 'ar' | 'en' | 'mixed' | 'unknown';
+  turns: { user: number; assistant: number };
+  toolCalls: ToolCallRecord[];
+  knowledgeLatencyMs: { count: number; avg: number; max: number };
+  reconnects: number;
+  errors: string[];
+  /** Guardrail breaches in the assistant's speech, by rule id. */
+  guardrailViolations: Record<string, number>;
+  contact: CustomerContact;
+  recap: string;
+}
+
+/** How the caller agreed to be recorded: by answering the assistant, or with the on-screen prompt. */
+export interface RecordingConsent {
+  method: 'spoken' | 'on_screen';
+  at: string;
+}
+
+/**
+ * A recorded call for quality review, with the transcript and tool log it
+ * belongs to. Offsets are seconds into the audio; anything said before consent
+ * has a negative offset.
+ */
+export interface CallRecording {
+  sessionId: string;
+  callNumber: number;
+  startedAt: string;
+  durationSec: number;
+  /** Stereo WAV: the caller on the left channel, the assistant on the right. */
+  audio: Blob;
+  sampleRate: number;
+  consent: RecordingConsent;
+  /** Recording hit the configured maximum before the call ended. */
+  truncated: boolean;
+  /** When the store must delete it, from the configured retention. */
+  expiresAt: string;
+  transcript: { role: MessageLog['role']; text: string; offsetSec: number }[];
+  toolCalls: (ToolCallRecord & { offsetSec: number })[];
+  recap: string;
+}
+
+export type HandoffPreference = 'wait' | 'callback';
+
+export type HandoffStatus = 'queued' | 'callback_scheduled' | 'unavailable';
+
+/** What the escalation queue answered for a request to talk to a person. */
+export interface HandoffTicket {
+  id: string;
+  status: HandoffStatus;
+  /** 1-based place in the live queue, when queued. */
+  position?: number;
+  estimatedWaitMinutes?: number;
+  /** ISO time an agent will have called back by, when a callback is scheduled. */
+  callbackBy?: string;
+}
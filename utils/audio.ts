@@ -37,14 +37,10 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export function createPcmBlob(data: Float32Array): { data: string; mimeType: string } {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
-  }
+/** Wraps 16 kHz PCM from the capture worklet for `sendRealtimeInput`. */
+export function createPcmBlob(pcm: Int16Array): { data: string; mimeType: string } {
   return {
-    data: encode(new Uint8Array(int16.buffer)),
+    data: encode(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)),
     mimeType: 'audio/pcm;rate=16000',
   };
 }
@@ -0,0 +1,140 @@
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+
+/**
+ * Runs on the audio rendering thread. Low-pass filters the device's rate below
+ * the target Nyquist frequency (a windowed-sinc FIR), resamples to 16 kHz by
+ * linear interpolation, converts to clipped Int16 and posts fixed-size chunks
+ * to the main thread as transferable buffers.
+ * Kept as a string so it loads through a Blob URL with no bundler support.
+ */
+export const PROCESSOR_SOURCE = `
+const FILTER_TAPS = 31;
+
+// Hamming-windowed sinc with its cutoff a little under the target Nyquist, so
+// energy above it does not fold back into the speech band when decimating.
+function lowPassTaps(step) {
+  if (step <= 1) return new Float32Array([1]);
+  const cutoff = 0.45 / step;
+  const taps = new Float32Array(FILTER_TAPS);
+  const mid = (FILTER_TAPS - 1) / 2;
+  let sum = 0;
+  for (let n = 0; n < FILTER_TAPS; n++) {
+    const x = n - mid;
+    const sinc = x === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x);
+    taps[n] = sinc * (0.54 - 0.46 * Math.cos((2 * Math.PI * n) / (FILTER_TAPS - 1)));
+    sum += taps[n];
+  }
+  for (let n = 0; n < FILTER_TAPS; n++) taps[n] /= sum;
+  return taps;
+}
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, chunkSamples } = options.processorOptions;
+    this.step = sampleRate / targetRate;
+    this.taps = lowPassTaps(this.step);
+    this.history = new Float32Array(this.taps.length);
+    this.head = 0;
+    this.chunkSamples = chunkSamples;
+    this.chunk = new Int16Array(chunkSamples);
+    this.filled = 0;
+    // The next output's position after the previous filtered sample, in input samples.
+    // Both live across blocks, so interpolation is continuous at block boundaries.
+    this.pos = 0;
+    this.prev = 0;
+  }
+
+  filter(x) {
+    const { taps, history } = this;
+    history[this.head] = x;
+    let y = 0;
+    for (let n = 0, i = this.head; n < taps.length; n++, i = i === 0 ? history.length - 1 : i - 1) {
+      y += taps[n] * history[i];
+    }
+    this.head = (this.head + 1) % history.length;
+    return y;
+  }
+
+  emit(v) {
+    const s = Math.max(-1, Math.min(1, v));
+    this.chunk[this.filled++] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    if (this.filled === this.chunkSamples) {
+      this.port.postMessage(this.chunk.buffer, [this.chunk.buffer]);
+      this.chunk = new Int16Array(this.chunkSamples);
+      this.filled = 0;
+    }
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+    for (let k = 0; k < input.length; k++) {
+      const cur = this.filter(input[k]);
+      while (this.pos < 1) {
+        this.emit(this.prev + (cur - this.prev) * this.pos);
+        this.pos += this.step;
+      }
+      this.pos -= 1;
+      this.prev = cur;
+    }
+    return true;
+  }
+}
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+async function ensureProcessor(ctx: AudioContext) {
+  if (loadedContexts.has(ctx)) return;
+  const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+    loadedContexts.add(ctx);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export interface PcmCapture {
+  /** The source node, for taps such as analysers. */
+  source: MediaStreamAudioSourceNode;
+  stop: () => void;
+}
+
+/**
+ * Streams 16 kHz Int16 PCM from `stream` to `onChunk`, `chunkMs` at a time.
+ * The context may run at any rate; the worklet resamples.
+ */
+export async function startPcmCapture(
+  ctx: AudioContext,
+  stream: MediaStream,
+  onChunk: (pcm: Int16Array) => void,
+  chunkMs = 40,
+): Promise<PcmCapture> {
+  await ensureProcessor(ctx);
+  const source = ctx.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(ctx, 'pcm-capture', {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: {
+      targetRate: CAPTURE_SAMPLE_RATE,
+      chunkSamples: Math.round((CAPTURE_SAMPLE_RATE * chunkMs) / 1000),
+    },
+  });
+  node.port.onmessage = (e: MessageEvent<ArrayBuffer>) => onChunk(new Int16Array(e.data));
+  source.connect(node);
+
+  return {
+    source,
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+    },
+  };
+}
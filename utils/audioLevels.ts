@@ -0,0 +1,39 @@
+
+/** Speech sits roughly between these; bands outside it only show noise. */
+const SPEECH_LOW_HZ = 100;
+const SPEECH_HIGH_HZ = 4000;
+
+export function createLevelAnalyser(ctx: BaseAudioContext): AnalyserNode {
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 512;
+  analyser.smoothingTimeConstant = 0.75;
+  analyser.minDecibels = -85;
+  analyser.maxDecibels = -20;
+  return analyser;
+}
+
+/**
+ * Averages byte frequency data into `bands` log-spaced speech bands, each 0..1.
+ * Log spacing keeps the low bands, where most voice energy is, from dominating.
+ */
+export function speechBandLevels(freq: Uint8Array, sampleRate: number, bands: number): number[] {
+  const nyquist = sampleRate / 2;
+  const binFor = (hz: number) => Math.min(freq.length - 1, Math.max(0, Math.round((hz / nyquist) * freq.length)));
+  const ratio = Math.pow(SPEECH_HIGH_HZ / SPEECH_LOW_HZ, 1 / bands);
+  const levels: number[] = [];
+  for (let b = 0; b < bands; b++) {
+    const from = binFor(SPEECH_LOW_HZ * Math.pow(ratio, b));
+    const to = Math.max(from + 1, binFor(SPEECH_LOW_HZ * Math.pow(ratio, b + 1)));
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += freq[i];
+    levels.push(sum / (to - from) / 255);
+  }
+  return levels;
+}
+
+/** Root-mean-square amplitude of time-domain samples, 0..1. */
+export function rmsLevel(samples: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / (samples.length || 1));
+}
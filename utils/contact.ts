@@ -0,0 +1,14 @@
+import { CustomerContact } from '../types';
+
+const CONTACT_KEYS: (keyof CustomerContact)[] = ['name', 'phone', 'email'];
+
+/** Picks contact fields out of tool arguments, keeping what is already known otherwise. */
+export function mergeContact(contact: CustomerContact, args: Record<string, unknown> | undefined): CustomerContact {
+  if (!args) return contact;
+  const next = { ...contact };
+  for (const key of CONTACT_KEYS) {
+    const value = args[key];
+    if (typeof value === 'string' && value.trim()) next[key] = value.trim();
+  }
+  return next;
+}
@@ -0,0 +1,245 @@
+import { normalizeDigits } from './validation';
+
+export const BUSINESS_TIME_ZONE = 'Africa/Cairo';
+
+export interface WallTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0, sun: 0, 'الأحد': 0, 'الاحد': 0, 'الحد': 0,
+  monday: 1, mon: 1, 'الاثنين': 1, 'الإثنين': 1, 'الاتنين': 1,
+  tuesday: 2, tue: 2, tues: 2, 'الثلاثاء': 2, 'التلات': 2,
+  wednesday: 3, wed: 3, 'الأربعاء': 3, 'الاربعاء': 3, 'الاربع': 3,
+  thursday: 4, thu: 4, thurs: 4, 'الخميس': 4,
+  friday: 5, fri: 5, 'الجمعة': 5, 'الجمعه': 5,
+  saturday: 6, sat: 6, 'السبت': 6,
+};
+
+const MONTHS: Record<string, number> = {
+  january: 1, jan: 1, february: 2, feb: 2, march: 3, mar: 3, april: 4, apr: 4,
+  may: 5, june: 6, jun: 6, july: 7, jul: 7, august: 8, aug: 8,
+  september: 9, sep: 9, sept: 9, october: 10, oct: 10, november: 11, nov: 11,
+  december: 12, dec: 12,
+};
+
+const RELATIVE_DAYS: [RegExp, number][] = [
+  [/day after tomorrow|بعد (بكرة|بكره|غدا|غداً)/, 2],
+  [/tomorrow|بكرة|بكره|غدا|غداً/, 1],
+  [/today|tonight|النهارده|النهاردة|اليوم/, 0],
+];
+
+function partsIn(date: Date, timeZone: string): WallTime & { second: number; weekday: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: 'numeric', day: 'numeric',
+    hour: 'numeric', minute: 'numeric', second: 'numeric',
+    weekday: 'short',
+  }).formatToParts(date);
+  const get = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    second: Number(get('second')),
+    weekday: WEEKDAYS[get('weekday').toLowerCase()],
+  };
+}
+
+/** Offset of `timeZone` from UTC at `date`, in minutes (Cairo is +120 or +180 with DST). */
+export function timeZoneOffsetMinutes(date: Date, timeZone = BUSINESS_TIME_ZONE): number {
+  const p = partsIn(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/** Wall-clock date and time in `timeZone` for an instant. */
+export function toWallTime(date: Date, timeZone = BUSINESS_TIME_ZONE): WallTime & { weekday: number } {
+  const { second, ...rest } = partsIn(date, timeZone);
+  return rest;
+}
+
+/** Converts a wall-clock time in `timeZone` to the instant it names. */
+export function fromWallTime(wall: WallTime, timeZone = BUSINESS_TIME_ZONE): Date {
+  const naive = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+  let instant = naive - timeZoneOffsetMinutes(new Date(naive), timeZone) * 60000;
+  // A second pass settles wall times that sit next to a DST switch.
+  instant = naive - timeZoneOffsetMinutes(new Date(instant), timeZone) * 60000;
+  return new Date(instant);
+}
+
+/** ISO 8601 with the zone's own offset, e.g. 2026-10-20T15:00:00+03:00. */
+export function formatZonedIso(date: Date, timeZone = BUSINESS_TIME_ZONE): string {
+  const w = toWallTime(date, timeZone);
+  const offset = timeZoneOffsetMinutes(date, timeZone);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const sign = offset < 0 ? '-' : '+';
+  const abs = Math.abs(offset);
+  return `${w.year}-${pad(w.month)}-${pad(w.day)}T${pad(w.hour)}:${pad(w.minute)}:00${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+}
+
+export function addDays(wall: Pick<WallTime, 'year' | 'month' | 'day'>, days: number) {
+  const d = new Date(Date.UTC(wall.year, wall.month - 1, wall.day + days));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+// "3.30" is a time, so a dotted date needs its year; slashes and dashes are dates either way.
+const NUMERIC_DATES = [
+  /\b(\d{1,2})\.(\d{1,2})\.(\d{2,4})\b/,
+  /\b(\d{1,2})[\/-](\d{1,2})(?:[\/-](\d{2,4}))?\b/,
+];
+
+function matchNumericDate(text: string) {
+  for (const pattern of NUMERIC_DATES) {
+    const m = text.match(pattern);
+    if (m) return m;
+  }
+  return null;
+}
+
+/** False for days the calendar does not have, such as 31/2 or month 13. */
+function isRealDay(day: CalendarDay): boolean {
+  if (day.month < 1 || day.month > 12 || day.day < 1) return false;
+  return day.day <= new Date(Date.UTC(day.year, day.month, 0)).getUTCDate();
+}
+
+function parseDay(text: string, today: WallTime & { weekday: number }) {
+  for (const [pattern, offset] of RELATIVE_DAYS) {
+    if (pattern.test(text)) return addDays(today, offset);
+  }
+
+  const numeric = matchNumericDate(text);
+  if (numeric) {
+    // Egypt writes dates day-first.
+    const day = Number(numeric[1]);
+    const month = Number(numeric[2]);
+    let year = numeric[3] ? Number(numeric[3]) : today.year;
+    if (year < 100) year += 2000;
+    return { year, month, day, explicitYear: !!numeric[3] };
+  }
+
+  for (const [name, month] of Object.entries(MONTHS)) {
+    const m = text.match(new RegExp(`\\b(?:(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${name}|${name}\\s+(\\d{1,2})(?:st|nd|rd|th)?)\\b(?:,?\\s*(\\d{4}))?`));
+    if (m) {
+      const day = Number(m[1] ?? m[2]);
+      return { year: m[3] ? Number(m[3]) : today.year, month, day, explicitYear: !!m[3] };
+    }
+  }
+
+  for (const [name, weekday] of Object.entries(WEEKDAYS)) {
+    const isArabic = /[^\x00-\x7F]/.test(name);
+    const pattern = isArabic ? new RegExp(`(^|\\s)(يوم\\s+)?${name}(\\s|$)`) : new RegExp(`\\b${name}\\b`);
+    if (pattern.test(text)) {
+      const ahead = ((weekday - today.weekday + 7) % 7) || 7;
+      return addDays(today, ahead);
+    }
+  }
+  return null;
+}
+
+function parseTime(text: string): { hour: number; minute: number } | null {
+  if (/\bnoon\b|الظهر/.test(text)) return { hour: 12, minute: 0 };
+
+  const candidates = text.matchAll(/(\bat\s+|الساعة\s+|الساعه\s+|\s|^)(\d{1,2})(?:[:.](\d{2}))?\s*(a\.?m\.?|p\.?m\.?|ص|م|صباحا|صباحاً|الصبح|مساء|مساءً|بالليل|العصر)?(?=\s|$|,)/g);
+  for (const m of candidates) {
+    const hour = Number(m[2]);
+    const minute = m[3] ? Number(m[3]) : 0;
+    const meridiem = m[4] ?? '';
+    // Bare numbers without a colon, an "at" or a meridiem are more likely a day than a time.
+    if (!m[3] && !meridiem && !m[1].trim()) continue;
+    if (hour > 23 || minute > 59) continue;
+    return to24Hour(hour, minute, meridiem);
+  }
+  return null;
+}
+
+function to24Hour(hour: number, minute: number, meridiem: string) {
+  const isPm = /^p|^م|مساء|بالليل|العصر/.test(meridiem);
+  const isAm = /^a|^ص|صباح|الصبح/.test(meridiem);
+  if (isPm && hour < 12) hour += 12;
+  else if (isAm && hour === 12) hour = 0;
+  // Callers book office meetings, so a bare "at 3" means the afternoon.
+  else if (!isAm && !isPm && hour >= 1 && hour <= 7) hour += 12;
+  return { hour, minute };
+}
+
+export type DateTimeParse =
+  | { ok: true; date: Date; iso: string }
+  | { ok: false; reason: 'unrecognized' | 'missing_day' | 'missing_time' | 'past' };
+
+/**
+ * Parses a spoken or written appointment time ("next Tuesday at 3", "بكرة الساعة 11 ص",
+ * "21/10 14:30", or ISO) as Cairo wall time and returns it as an ISO timestamp.
+ */
+export function parseBusinessDateTime(input: string, now = new Date(), timeZone = BUSINESS_TIME_ZONE): DateTimeParse {
+  const text = normalizeDigits(input).toLowerCase().trim().replace(/\s+/g, ' ');
+  if (!text) return { ok: false, reason: 'unrecognized' };
+
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[t ](\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?)?\s*(z|[+-]\d{2}:?\d{2})?$/);
+  if (iso) {
+    if (!iso[4]) return { ok: false, reason: 'missing_time' };
+    if (!isRealDay({ year: +iso[1], month: +iso[2], day: +iso[3] }) || +iso[4] > 23 || +iso[5] > 59) {
+      return { ok: false, reason: 'unrecognized' };
+    }
+    const date = iso[6]
+      ? new Date(text.toUpperCase().replace(' ', 'T'))
+      : fromWallTime({ year: +iso[1], month: +iso[2], day: +iso[3], hour: +iso[4], minute: +iso[5] }, timeZone);
+    if (isNaN(date.getTime())) return { ok: false, reason: 'unrecognized' };
+    if (date.getTime() < now.getTime()) return { ok: false, reason: 'past' };
+    return { ok: true, date, iso: formatZonedIso(date, timeZone) };
+  }
+
+  const today = toWallTime(now, timeZone);
+  const day = parseDay(text, today);
+  const numericDate = matchNumericDate(text);
+  const time = parseTime(numericDate ? text.replace(numericDate[0], ' ') : text);
+  if (!day && !time) return { ok: false, reason: 'unrecognized' };
+  if (!day) return { ok: false, reason: 'missing_day' };
+  if (!isRealDay(day)) return { ok: false, reason: 'unrecognized' };
+  if (!time) return { ok: false, reason: 'missing_time' };
+
+  let date = fromWallTime({ year: day.year, month: day.month, day: day.day, ...time }, timeZone);
+  if (isNaN(date.getTime())) return { ok: false, reason: 'unrecognized' };
+  // "21/1" said in December means next January, not the one that has passed.
+  if (date.getTime() < now.getTime() && 'explicitYear' in day && !day.explicitYear) {
+    date = fromWallTime({ year: day.year + 1, month: day.month, day: day.day, ...time }, timeZone);
+  }
+  if (date.getTime() < now.getTime()) return { ok: false, reason: 'past' };
+  return { ok: true, date, iso: formatZonedIso(date, timeZone) };
+}
+
+export type CalendarDay = Pick<WallTime, 'year' | 'month' | 'day'>;
+
+export type DayParse =
+  | { ok: true; day: CalendarDay }
+  | { ok: false; reason: 'unrecognized' | 'past' };
+
+/** "YYYY-MM-DD" for a calendar day, the form holiday lists and day comparisons use. */
+export function dayKey(day: CalendarDay): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${day.year}-${pad(day.month)}-${pad(day.day)}`;
+}
+
+/** Parses a day on its own ("tomorrow", "next Sunday", "21/10", "2026-10-21"), for availability questions. */
+export function parseBusinessDay(input: string, now = new Date(), timeZone = BUSINESS_TIME_ZONE): DayParse {
+  const text = normalizeDigits(input).toLowerCase().trim().replace(/\s+/g, ' ');
+  const today = toWallTime(now, timeZone);
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  let day: (CalendarDay & { explicitYear?: boolean }) | null = iso
+    ? { year: +iso[1], month: +iso[2], day: +iso[3], explicitYear: true }
+    : parseDay(text, today);
+  if (!day || !isRealDay(day)) return { ok: false, reason: 'unrecognized' };
+
+  if (dayKey(day) < dayKey(today) && 'explicitYear' in day && !day.explicitYear) {
+    day = { ...day, year: day.year + 1 };
+  }
+  if (dayKey(day) < dayKey(today)) return { ok: false, reason: 'past' };
+  return { ok: true, day: { year: day.year, month: day.month, day: day.day } };
+}
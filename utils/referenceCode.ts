@@ -0,0 +1,53 @@
+import { Locale } from '../i18n/locales';
+import { normalizeDigits } from './validation';
+
+/**
+ * Reference codes are nine digits said as three groups of three: eight random
+ * digits and a Damm check digit. Digits read the same way in Arabic and
+ * English, and the check catches any one misheard digit and any two
+ * neighbours swapped, so a wrong code is rejected instead of looked up.
+ * Codes are made before delivery, which may be queued offline, so no store
+ * can confirm them first. With 10^8 bodies a new code matches one of 10,000
+ * earlier ones about once in 10,000 actions, and since a lookup also needs
+ * the contact to match, a clash only matters for the same customer.
+ */
+const DAMM_TABLE = [
+  [0, 3, 1, 7, 5, 9, 8, 6, 4, 2],
+  [7, 0, 9, 2, 1, 5, 4, 8, 6, 3],
+  [4, 2, 0, 6, 8, 7, 1, 3, 5, 9],
+  [1, 7, 5, 0, 9, 8, 3, 4, 2, 6],
+  [6, 1, 2, 3, 0, 4, 5, 9, 7, 8],
+  [3, 6, 7, 4, 2, 0, 9, 5, 8, 1],
+  [5, 8, 6, 9, 7, 2, 0, 1, 3, 4],
+  [8, 9, 4, 5, 3, 6, 2, 0, 1, 7],
+  [9, 4, 3, 8, 6, 1, 7, 2, 0, 5],
+  [2, 5, 8, 1, 4, 3, 6, 7, 9, 0],
+];
+
+const CODE_PATTERN = /^\d{9}$/;
+const BODY_DIGITS = 8;
+
+function dammDigit(digits: string): number {
+  let interim = 0;
+  for (const d of digits) interim = DAMM_TABLE[interim][Number(d)];
+  return interim;
+}
+
+const secureRandom = () => crypto.getRandomValues(new Uint32Array(1))[0] / 2 ** 32;
+
+export function createReferenceCode(random: () => number = secureRandom): string {
+  const body = Array.from({ length: BODY_DIGITS }, () => Math.floor(random() * 10)).join('');
+  return `${body}${dammDigit(body)}`;
+}
+
+/** The nine ASCII digits of a code as heard or typed ("٤٨٢ ٩١٥ ٣٠٧", "482-915-307"), or null if it fails the check. */
+export function normalizeReferenceCode(input: string): string | null {
+  const code = normalizeDigits(input).replace(/[\s\-.]/g, '');
+  return CODE_PATTERN.test(code) && dammDigit(code) === 0 ? code : null;
+}
+
+/** "482 915 307", or "٤٨٢ ٩١٥ ٣٠٧" in Arabic-Indic digits. */
+export function formatReferenceCode(code: string, locale: Locale = 'en'): string {
+  const grouped = code.replace(/\d{3}(?=\d)/g, '$& ');
+  return locale === 'ar' ? grouped.replace(/\d/g, d => String.fromCharCode(0x0660 + Number(d))) : grouped;
+}
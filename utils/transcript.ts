@@ -0,0 +1,39 @@
+import { MessageLog } from '../types';
+
+const RTL_CHARS = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+const LTR_CHARS = /[A-Za-z\u00C0-\u024F]/;
+
+/**
+ * Appends a streamed transcription chunk. Chunks extend the open (non-final)
+ * entry of the same role; a chunk from the other role closes it first.
+ */
+export function appendTranscriptChunk(
+  log: MessageLog[],
+  role: MessageLog['role'],
+  chunk: string,
+): MessageLog[] {
+  if (!chunk) return log;
+  const last = log[log.length - 1];
+  if (last && last.role === role && !last.isFinal) {
+    return [...log.slice(0, -1), { ...last, text: last.text + chunk }];
+  }
+  const closed = last && !last.isFinal ? [...log.slice(0, -1), { ...last, isFinal: true }] : log;
+  return [...closed, { role, text: chunk, timestamp: new Date(), isFinal: false }];
+}
+
+/** Marks every open entry (optionally only one role) as final and trims its text. */
+export function finalizeTranscript(log: MessageLog[], role?: MessageLog['role']): MessageLog[] {
+  if (!log.some(m => !m.isFinal && (!role || m.role === role))) return log;
+  return log
+    .map(m => (!m.isFinal && (!role || m.role === role) ? { ...m, text: m.text.trim(), isFinal: true } : m))
+    .filter(m => m.text.length > 0);
+}
+
+/** Picks the base direction from the first strong character, like dir="auto". */
+export function textDirection(text: string): 'rtl' | 'ltr' {
+  for (const ch of text) {
+    if (RTL_CHARS.test(ch)) return 'rtl';
+    if (LTR_CHARS.test(ch)) return 'ltr';
+  }
+  return 'ltr';
+}
@@ -0,0 +1,149 @@
+
+export interface VadOptions {
+  /** RMS (0..1) a frame must exceed to count as speech. */
+  thresholdRms?: number;
+  /** Raise the threshold to this multiple of the tracked background level. 0 disables. */
+  noiseFloorMultiplier?: number;
+  /** How long speech may pause before the turn counts as ended. */
+  hangoverMs?: number;
+  /** Audio kept from before speech onset so the first syllable is not clipped. */
+  preRollMs?: number;
+  /** Frames quieter than this RMS (0..1) are faded out inside speech, e.g. pauses between words. Off when unset. */
+  noiseGateRms?: number;
+  /** Longest a turn may last before it is ended anyway, so steady noise cannot hold it open. 0 disables. */
+  maxSpeechMs?: number;
+  sampleRate?: number;
+}
+
+export interface VadResult {
+  event: 'start' | 'end' | null;
+  speaking: boolean;
+  /** Frames to send now: the pre-roll plus this frame at onset, this frame while speaking, none in silence. */
+  frames: Int16Array[];
+}
+
+export interface Vad {
+  process: (pcm: Int16Array) => VadResult;
+  reset: () => void;
+}
+
+function frameRms(pcm: Int16Array): number {
+  let sum = 0;
+  for (let i = 0; i < pcm.length; i++) {
+    const s = pcm[i] / 32768;
+    sum += s * s;
+  }
+  return Math.sqrt(sum / (pcm.length || 1));
+}
+
+/** The gate opens this fast, so onsets are not softened... */
+const GATE_ATTACK_MS = 5;
+/** ...and closes this slowly, so word endings are not cut off. */
+const GATE_RELEASE_MS = 120;
+
+/**
+ * A noise gate on whole frames: the frame's RMS decides whether it is open,
+ * and the gain ramps between 0 and 1 sample by sample, so the waveform is
+ * never clipped around zero and there are no clicks at the edges.
+ */
+function createGate(gateRms: number, sampleRate: number) {
+  const attackStep = 1 / ((GATE_ATTACK_MS / 1000) * sampleRate);
+  const releaseStep = 1 / ((GATE_RELEASE_MS / 1000) * sampleRate);
+  let gain = 0;
+
+  return {
+    apply: (pcm: Int16Array, rms: number): Int16Array => {
+      const open = rms >= gateRms;
+      if (open && gain === 1) return pcm;
+      const out = new Int16Array(pcm.length);
+      for (let i = 0; i < pcm.length; i++) {
+        gain = open ? Math.min(1, gain + attackStep) : Math.max(0, gain - releaseStep);
+        out[i] = Math.round(pcm[i] * gain);
+      }
+      return out;
+    },
+    reset: () => { gain = 0; },
+  };
+}
+
+/**
+ * Energy VAD with hangover. Time is counted in samples, not wall clock, so
+ * results depend only on the audio fed in.
+ */
+export function createVad(options: VadOptions = {}): Vad {
+  const {
+    thresholdRms = 0.012,
+    noiseFloorMultiplier = 3,
+    hangoverMs = 600,
+    preRollMs = 200,
+    noiseGateRms,
+    maxSpeechMs = 30000,
+    sampleRate = 16000,
+  } = options;
+
+  let speaking = false;
+  let silenceMs = 0;
+  let speechMs = 0;
+  let speechEnergy = 0;
+  let noiseFloor = thresholdRms / Math.max(noiseFloorMultiplier, 1);
+  let preRoll: Int16Array[] = [];
+  let preRollDuration = 0;
+
+  const gate = noiseGateRms ? createGate(noiseGateRms, sampleRate) : null;
+  const shape = (pcm: Int16Array) => (gate ? gate.apply(pcm, frameRms(pcm)) : pcm);
+
+  return {
+    process: pcm => {
+      const durationMs = (pcm.length / sampleRate) * 1000;
+      const rms = frameRms(pcm);
+      const threshold = noiseFloorMultiplier > 0 ? Math.max(thresholdRms, noiseFloor * noiseFloorMultiplier) : thresholdRms;
+      const loud = rms > threshold;
+
+      if (!speaking) {
+        // Only silence updates the floor, so speech cannot raise its own threshold.
+        if (!loud) noiseFloor = noiseFloor * 0.95 + rms * 0.05;
+        if (loud) {
+          speaking = true;
+          silenceMs = 0;
+          speechMs = 0;
+          speechEnergy = 0;
+          const frames = [...preRoll, pcm].map(shape);
+          preRoll = [];
+          preRollDuration = 0;
+          return { event: 'start', speaking, frames };
+        }
+        preRoll.push(pcm);
+        preRollDuration += durationMs;
+        while (preRoll.length > 1 && preRollDuration - (preRoll[0].length / sampleRate) * 1000 >= preRollMs) {
+          preRollDuration -= (preRoll.shift()!.length / sampleRate) * 1000;
+        }
+        return { event: null, speaking, frames: [] };
+      }
+
+      silenceMs = loud ? 0 : silenceMs + durationMs;
+      speechMs += durationMs;
+      speechEnergy += rms * durationMs;
+      if (maxSpeechMs > 0 && speechMs >= maxSpeechMs) {
+        // Nobody talks this long without a pause: treat what kept the turn open as background,
+        // so the same level does not start the next turn straight away.
+        speaking = false;
+        silenceMs = 0;
+        noiseFloor = Math.max(noiseFloor, speechEnergy / speechMs);
+        return { event: 'end', speaking, frames: [shape(pcm)] };
+      }
+      if (silenceMs >= hangoverMs) {
+        speaking = false;
+        silenceMs = 0;
+        return { event: 'end', speaking, frames: [shape(pcm)] };
+      }
+      return { event: null, speaking, frames: [shape(pcm)] };
+    },
+    reset: () => {
+      gate?.reset();
+      speaking = false;
+      silenceMs = 0;
+      preRoll = [];
+      preRollDuration = 0;
+    },
+  };
+}
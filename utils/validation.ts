@@ -0,0 +1,65 @@
+
+export type FieldResult = { ok: true; value: string } | { ok: false; reason: string };
+
+/** Narrows parsed JSON or a posted message to an object whose fields can be checked one by one. */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/** Maps Arabic-Indic (٠-٩) and Persian (۰-۹) digits to ASCII. */
+export function normalizeDigits(input: string): string {
+  return input
+    .replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[۰-۹]/g, d => String(d.charCodeAt(0) - 0x06F0));
+}
+
+/**
+ * Normalizes a phone number to E.164. Local Egyptian formats (010…, 02…)
+ * get +20; anything else must already carry a country code (+ or 00).
+ */
+export function normalizePhone(input: string): FieldResult {
+  const raw = normalizeDigits(input).trim();
+  if (/[^\d\s+()\-.]/.test(raw)) return { ok: false, reason: 'contains letters' };
+
+  let digits = raw.replace(/[^\d+]/g, '');
+  if (digits.startsWith('00')) digits = `+${digits.slice(2)}`;
+  if (digits.indexOf('+') > 0) return { ok: false, reason: 'misplaced +' };
+
+  if (!digits.startsWith('+')) {
+    if (/^20(1[0125]\d{8}|[2-9]\d{7,8})$/.test(digits)) {
+      digits = `+${digits}`;
+    } else if (/^0(1[0125]\d{8}|[2-9]\d{7,8})$/.test(digits)) {
+      digits = `+20${digits.slice(1)}`;
+    } else {
+      return { ok: false, reason: 'not a recognizable Egyptian number' };
+    }
+  }
+
+  if (digits.startsWith('+20')) {
+    // Numbers said as +20 01… keep the trunk zero by habit.
+    const national = digits.slice(3).replace(/^0/, '');
+    if (!/^(1[0125]\d{8}|[2-9]\d{7,8})$/.test(national)) {
+      return { ok: false, reason: 'wrong length for an Egyptian number' };
+    }
+    return { ok: true, value: `+20${national}` };
+  }
+
+  if (!/^\+[1-9]\d{7,14}$/.test(digits)) return { ok: false, reason: 'wrong length' };
+  return { ok: true, value: digits };
+}
+
+const EMAIL_PATTERN = /^[a-z0-9._%+-]+@[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}$/;
+
+/** Lower-cases an email, undoes dictation ("at", "dot") and checks its syntax. */
+export function normalizeEmail(input: string): FieldResult {
+  const value = normalizeDigits(input)
+    .trim()
+    .toLowerCase()
+    .replace(/\s+(at|آت)\s+/g, '@')
+    .replace(/\s+(dot|دوت)\s+/g, '.')
+    .replace(/\s+/g, '');
+  if (!EMAIL_PATTERN.test(value) || value.includes('..')) {
+    return { ok: false, reason: 'invalid email syntax' };
+  }
+  return { ok: true, value };
+}
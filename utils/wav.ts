@@ -0,0 +1,45 @@
+/** Linear-interpolation resampling of mono Int16 PCM; enough for speech. */
+export function resamplePcm(pcm: Int16Array, fromRate: number, toRate: number): Int16Array {
+  if (fromRate === toRate) return pcm;
+  const out = new Int16Array(Math.round((pcm.length * toRate) / fromRate));
+  const step = fromRate / toRate;
+  for (let i = 0; i < out.length; i++) {
+    const pos = i * step;
+    const j = Math.floor(pos);
+    const a = pcm[Math.min(j, pcm.length - 1)];
+    const b = pcm[Math.min(j + 1, pcm.length - 1)];
+    out[i] = Math.round(a + (b - a) * (pos - j));
+  }
+  return out;
+}
+
+/** A 16-bit PCM WAV file with `left` and `right` interleaved; the shorter side is padded with silence. */
+export function encodeStereoWav(left: Int16Array, right: Int16Array, sampleRate: number): Uint8Array {
+  const frames = Math.max(left.length, right.length);
+  const dataBytes = frames * 4;
+  const bytes = new Uint8Array(44 + dataBytes);
+  const view = new DataView(bytes.buffer);
+  const ascii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  ascii(0, 'RIFF');
+  view.setUint32(4, 36 + dataBytes, true);
+  ascii(8, 'WAVE');
+  ascii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 2, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 4, true);
+  view.setUint16(32, 4, true);
+  view.setUint16(34, 16, true);
+  ascii(36, 'data');
+  view.setUint32(40, dataBytes, true);
+
+  for (let i = 0; i < frames; i++) {
+    view.setInt16(44 + i * 4, left[i] ?? 0, true);
+    view.setInt16(46 + i * 4, right[i] ?? 0, true);
+  }
+  return bytes;
+}
@@ -4,15 +4,46 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Empty means the token server is reachable on the same origin under /api.
+    const apiBaseUrl = env.API_BASE_URL || '';
+    const knowledgeAdapter = env.KNOWLEDGE_ADAPTER || 'n8n';
+    const actionsAdapter = env.ACTIONS_ADAPTER || 'sheets';
+    // The token server forwards to the production webhook and script, so only the adapters
+    // that speak their formats default to it; a REST adapter without a URL fails at startup.
+    const proxiedUrl = (url: string | undefined, adapter: string, proxied: string, route: string) =>
+      url || (adapter === proxied ? `${apiBaseUrl}${route}` : '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.SERVER_PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_BASE_URL': JSON.stringify(apiBaseUrl),
+        'process.env.KNOWLEDGE_ADAPTER': JSON.stringify(knowledgeAdapter),
+        'process.env.KNOWLEDGE_URL': JSON.stringify(proxiedUrl(env.KNOWLEDGE_URL, knowledgeAdapter, 'n8n', '/api/knowledge')),
+        'process.env.KNOWLEDGE_TIMEOUT_MS': JSON.stringify(env.KNOWLEDGE_TIMEOUT_MS || ''),
+        'process.env.KNOWLEDGE_CACHE_TTL_MS': JSON.stringify(env.KNOWLEDGE_CACHE_TTL_MS || ''),
+        'process.env.ACTIONS_ADAPTER': JSON.stringify(actionsAdapter),
+        'process.env.ACTIONS_URL': JSON.stringify(proxiedUrl(env.ACTIONS_URL, actionsAdapter, 'sheets', '/api/actions')),
+        'process.env.ACTIONS_ENDPOINT_MODE': JSON.stringify(env.ACTIONS_ENDPOINT_MODE || 'cors'),
+        // The token server only serves /api/handoff and /api/actions/lookup with an upstream behind them;
+        // without one the tool that needs it is left out of calls.
+        'process.env.ACTIONS_LOOKUP_URL': JSON.stringify(env.ACTIONS_LOOKUP_URL || (env.ACTIONS_LOOKUP_UPSTREAM_URL ? `${apiBaseUrl}/api/actions/lookup` : '')),
+        'process.env.HANDOFF_ADAPTER': JSON.stringify(env.HANDOFF_ADAPTER || 'rest'),
+        'process.env.HANDOFF_URL': JSON.stringify(env.HANDOFF_URL || (env.HANDOFF_UPSTREAM_URL ? `${apiBaseUrl}/api/handoff` : '')),
+        'process.env.RECORDINGS_ADAPTER': JSON.stringify(env.RECORDINGS_ADAPTER || 'rest'),
+        'process.env.RECORDINGS_URL': JSON.stringify(env.RECORDINGS_URL || `${apiBaseUrl}/api/recordings`),
+        'process.env.RECORDING_ENABLED': JSON.stringify(env.RECORDING_ENABLED || ''),
+        'process.env.RECORDING_UPLOAD': JSON.stringify(env.RECORDING_UPLOAD || ''),
+        'process.env.RECORDING_MAX_MINUTES': JSON.stringify(env.RECORDING_MAX_MINUTES || ''),
+        'process.env.RECORDING_RETENTION_DAYS': JSON.stringify(env.RECORDING_RETENTION_DAYS || ''),
+        'process.env.CALENDAR_SOURCE': JSON.stringify(env.CALENDAR_SOURCE || 'rest'),
+        'process.env.CALENDAR_URL': JSON.stringify(env.CALENDAR_URL || `${apiBaseUrl}/api/calendar`),
+        'process.env.EMBED_ALLOWED_ORIGINS': JSON.stringify(env.EMBED_ALLOWED_ORIGINS || '')
       },
       resolve: {
         alias: {
@@ -0,0 +1,16 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+
+// Builds the host-page SDK on its own: `window.RiyadahWidget.mount({...})`.
+export default defineConfig({
+  build: {
+    outDir: 'dist-sdk',
+    emptyOutDir: true,
+    lib: {
+      entry: path.resolve(__dirname, 'embed/hostSdk.ts'),
+      name: 'RiyadahWidget',
+      fileName: format => `riyadah-widget.${format}.js`,
+      formats: ['es', 'iife'],
+    },
+  },
+});
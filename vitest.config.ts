@@ -0,0 +1,21 @@
+import { defineConfig } from 'vitest/config';
+import react from '@vitejs/plugin-react';
+
+// Separate from vite.config.ts: tests run against the mock adapters and never
+// reach the network, whatever the local env files say.
+export default defineConfig({
+  plugins: [react()],
+  test: {
+    environment: 'jsdom',
+    include: ['tests/**/*.test.{ts,tsx}'],
+    setupFiles: ['tests/setup.ts'],
+    env: {
+      API_BASE_URL: '',
+      KNOWLEDGE_ADAPTER: 'mock',
+      ACTIONS_ADAPTER: 'mock',
+      HANDOFF_ADAPTER: 'mock',
+      CALENDAR_SOURCE: 'memory',
+      EMBED_ALLOWED_ORIGINS: '',
+    },
+  },
+});